@@ -4,18 +4,31 @@ import helmet from 'helmet';
 import dotenv from 'dotenv';
 
 import authRoutes from './routes/auth';
-import syncRoutes, { setWebSocketServer } from './routes/sync';
+import syncRoutes from './routes/sync';
+import conflictsRoutes from './routes/conflicts';
+import reconcileRoutes from './routes/reconcile';
+import statusRoutes from './routes/status';
+import snapshotRoutes from './routes/snapshot';
 import notesRoutes from './routes/notes';
+import trashRoutes from './routes/trash';
+import devicesRoutes from './routes/devices';
 import attachmentsRoutes from './routes/attachments';
 import settingsRoutes from './routes/settings';
 import executeRoutes from './routes/execute';
 import { WebSocketSyncServer } from './websocket/server';
+import { setWebSocketServer } from './websocket/notifier';
+import { PostgresNotificationBroker } from './websocket/broker';
+import { pool } from './utils/db';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3000;
+// Standalone WebSocket port (0 disables it) and path served on the HTTP server (empty disables it)
 const WS_PORT = parseInt(process.env.WS_PORT || '3001');
+const WS_PATH = process.env.WS_PATH || '';
+// 'postgres' shares notifications between server instances through LISTEN/NOTIFY
+const WS_BROKER = process.env.WS_BROKER || 'none';
 
 // Middleware
 app.use(helmet());
@@ -34,8 +47,14 @@ app.use((req, res, next) => {
 
 // Routes (no rate limiting)
 app.use('/api/auth', authRoutes);
+app.use('/api/sync/conflicts', conflictsRoutes);
+app.use('/api/sync/reconcile', reconcileRoutes);
+app.use('/api/sync/status', statusRoutes);
+app.use('/api/sync/snapshot', snapshotRoutes);
 app.use('/api/sync', syncRoutes);
 app.use('/api/notes', notesRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/devices', devicesRoutes);
 app.use('/api/attachments', attachmentsRoutes);
 app.use('/api/settings', settingsRoutes);
 app.use('/api/execute', executeRoutes);
@@ -56,31 +75,42 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 });
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 NotNative Sync Server running on port ${PORT}`);
   console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
 });
 
 // Start WebSocket server
-const wsServer = new WebSocketSyncServer(WS_PORT);
+const wsServer = new WebSocketSyncServer({
+  port: WS_PORT,
+  server,
+  path: WS_PATH,
+  broker: WS_BROKER === 'postgres' ? new PostgresNotificationBroker(pool) : undefined,
+});
 
-// Connect WebSocket server to sync routes for notifications
+// Connect WebSocket server to routes for notifications
 setWebSocketServer(wsServer);
 
 // Make WebSocket server available to routes
 export { wsServer };
 
 // Graceful shutdown
-process.on('SIGTERM', async () => {
-  console.log('SIGTERM signal received - closing servers gracefully');
-  await wsServer.shutdown();
-  process.exit(0);
-});
+async function shutdown(signal: string) {
+  console.log(`${signal} signal received - closing servers gracefully`);
+  let exitCode = 0;
+  try {
+    await wsServer.shutdown();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    console.log('✅ HTTP server closed');
+  } catch (error) {
+    console.error('❌ Error during shutdown:', error);
+    exitCode = 1;
+  } finally {
+    process.exit(exitCode);
+  }
+}
 
-process.on('SIGINT', async () => {
-  console.log('SIGINT signal received - closing servers gracefully');
-  await wsServer.shutdown();
-  process.exit(0);
-});
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 export default app;
@@ -1,5 +1,6 @@
 import { Router, Response } from 'express';
 import multer from 'multer';
+import { z } from 'zod';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import { pool } from '../utils/db';
 import {
@@ -12,6 +13,8 @@ import {
   checkStorageQuota,
   updateUserStorage,
 } from '../utils/storage';
+import { nextChangeSeq, lockChangeSeq } from '../utils/change-seq';
+import { notifySyncAvailable } from '../websocket/notifier';
 import fs from 'fs';
 import path from 'path';
 
@@ -66,6 +69,7 @@ router.post('/upload', upload.single('file'), async (req: AuthRequest, res: Resp
     const storageKey = getStoragePath(fileHash);
 
     await client.query('BEGIN');
+    const baseSeq = await lockChangeSeq(client, userId);
 
     // Verificar si el archivo ya existe (deduplicación)
     const existingFile = await client.query(
@@ -80,8 +84,8 @@ router.post('/upload', upload.single('file'), async (req: AuthRequest, res: Resp
       const now = Date.now();
       const result = await client.query(
         `INSERT INTO attachments 
-          (user_id, note_uuid, file_name, file_hash, file_size, mime_type, s3_key, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          (user_id, note_uuid, file_name, file_hash, file_size, mime_type, s3_key, created_at, updated_at, change_seq)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
          RETURNING id, file_hash, s3_key`,
         [
           userId,
@@ -93,6 +97,7 @@ router.post('/upload', upload.single('file'), async (req: AuthRequest, res: Resp
           existingFile.rows[0].s3_key, // Reutilizar la misma storage key
           now,
           now,
+          await nextChangeSeq(client, userId),
         ]
       );
       attachmentId = result.rows[0].id;
@@ -104,10 +109,10 @@ router.post('/upload', upload.single('file'), async (req: AuthRequest, res: Resp
       const now = Date.now();
       const result = await client.query(
         `INSERT INTO attachments 
-          (user_id, note_uuid, file_name, file_hash, file_size, mime_type, s3_key, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          (user_id, note_uuid, file_name, file_hash, file_size, mime_type, s3_key, created_at, updated_at, change_seq)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
          RETURNING id, file_hash, s3_key`,
-        [userId, noteUuid, fileName, fileHash, fileSize, mimeType, storageKey, now, now]
+        [userId, noteUuid, fileName, fileHash, fileSize, mimeType, storageKey, now, now, await nextChangeSeq(client, userId)]
       );
       attachmentId = result.rows[0].id;
     }
@@ -119,10 +124,11 @@ router.post('/upload', upload.single('file'), async (req: AuthRequest, res: Resp
     );
 
     // Registrar en sync_log
+    const logSeq = await nextChangeSeq(client, userId);
     await client.query(
       `INSERT INTO sync_log 
-        (user_id, device_id, entity_type, entity_id, operation, data_json, timestamp)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        (user_id, device_id, entity_type, entity_id, operation, data_json, timestamp, change_seq)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
       [
         userId,
         req.body.deviceId || 'server',
@@ -139,11 +145,18 @@ router.post('/upload', upload.single('file'), async (req: AuthRequest, res: Resp
           createdAt: Date.now(),
         }),
         Date.now(),
+        logSeq,
       ]
     );
 
     await client.query('COMMIT');
 
+    notifySyncAvailable(userId, req.body.deviceId || 'server', {
+      changes: [{ type: 'attachment', id: attachmentId, op: 'upsert', parentId: noteUuid }],
+      seq: logSeq,
+      baseSeq,
+    });
+
     res.json({
       success: true,
       attachment: {
@@ -233,6 +246,107 @@ router.get('/:id/download', async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Renombrar y/o mover a otra nota; los campos omitidos no cambian
+const UpdateAttachmentSchema = z.object({
+  fileName: z.string().min(1).max(500).optional(),
+  noteUuid: z.string().min(1).max(36).optional(),
+  deviceId: z.string().optional(),
+});
+
+// PATCH /api/attachments/:id - Rename attachment or move it to another note
+router.patch('/:id', async (req: AuthRequest, res: Response) => {
+  const client = await pool.connect();
+
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const { fileName, noteUuid, deviceId } = UpdateAttachmentSchema.parse(req.body);
+
+    await client.query('BEGIN');
+    const baseSeq = await lockChangeSeq(client, userId);
+
+    // La nota destino debe existir y pertenecer al usuario
+    if (noteUuid) {
+      const note = await client.query(
+        'SELECT 1 FROM notes WHERE user_id = $1 AND uuid = $2 AND deleted_at IS NULL',
+        [userId, noteUuid]
+      );
+      if (note.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Note not found' });
+      }
+    }
+
+    // Un solo change_seq para la fila y su entrada en sync_log
+    const changeSeq = await nextChangeSeq(client, userId);
+    const result = await client.query(
+      `UPDATE attachments
+       SET file_name = COALESCE($3, file_name),
+           note_uuid = COALESCE($4, note_uuid),
+           updated_at = $5,
+           change_seq = $6
+       WHERE id::text = $1 AND user_id = $2 AND deleted_at IS NULL
+       RETURNING id, note_uuid, file_name, file_hash, file_size, mime_type, created_at, updated_at`,
+      [id, userId, fileName ?? null, noteUuid ?? null, Date.now(), changeSeq]
+    );
+
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    const attachment = result.rows[0];
+
+    // Registrar en sync_log
+    await client.query(
+      `INSERT INTO sync_log
+        (user_id, device_id, entity_type, entity_id, operation, data_json, timestamp, change_seq)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        userId,
+        deviceId || 'server',
+        'attachment',
+        id,
+        'update',
+        JSON.stringify({ id, noteUuid: attachment.note_uuid, fileName: attachment.file_name }),
+        Date.now(),
+        changeSeq,
+      ]
+    );
+
+    await client.query('COMMIT');
+
+    notifySyncAvailable(userId, deviceId || 'server', {
+      changes: [{ type: 'attachment', id: attachment.id, op: 'upsert', parentId: attachment.note_uuid }],
+      seq: changeSeq,
+      baseSeq,
+    });
+
+    res.json({
+      success: true,
+      attachment: {
+        id: attachment.id,
+        noteUuid: attachment.note_uuid,
+        fileName: attachment.file_name,
+        fileHash: attachment.file_hash,
+        fileSize: Number(attachment.file_size),
+        mimeType: attachment.mime_type,
+        createdAt: Number(attachment.created_at),
+        updatedAt: Number(attachment.updated_at),
+      },
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Update attachment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
 // DELETE /api/attachments/:id - Delete attachment
 router.delete('/:id', async (req: AuthRequest, res: Response) => {
   const client = await pool.connect();
@@ -242,10 +356,11 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
 
     await client.query('BEGIN');
+    const baseSeq = await lockChangeSeq(client, userId);
 
     // Obtener attachment info
     const result = await client.query(
-      'SELECT id, user_id, file_size, s3_key, deleted_at FROM attachments WHERE id = $1',
+      'SELECT id, user_id, note_uuid, file_size, s3_key, deleted_at FROM attachments WHERE id = $1',
       [id]
     );
 
@@ -268,8 +383,8 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
 
     // Marcar como eliminado (soft delete)
     await client.query(
-      'UPDATE attachments SET deleted_at = $1 WHERE id = $2',
-      [Date.now(), id]
+      'UPDATE attachments SET deleted_at = $1, change_seq = $3 WHERE id = $2',
+      [Date.now(), id, await nextChangeSeq(client, userId)]
     );
 
     // Actualizar storage usado del usuario (restar)
@@ -279,10 +394,11 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
     );
 
     // Registrar en sync_log
+    const logSeq = await nextChangeSeq(client, userId);
     await client.query(
       `INSERT INTO sync_log 
-        (user_id, device_id, entity_type, entity_id, operation, data_json, timestamp)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        (user_id, device_id, entity_type, entity_id, operation, data_json, timestamp, change_seq)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
       [
         userId,
         req.body.deviceId || 'server',
@@ -291,11 +407,18 @@ router.delete('/:id', async (req: AuthRequest, res: Response) => {
         'delete',
         JSON.stringify({ id, deletedAt: Date.now() }),
         Date.now(),
+        logSeq,
       ]
     );
 
     await client.query('COMMIT');
 
+    notifySyncAvailable(userId, req.body.deviceId || 'server', {
+      changes: [{ type: 'attachment', id, op: 'delete', parentId: attachment.note_uuid }],
+      seq: logSeq,
+      baseSeq,
+    });
+
     // Borrado inmediato: eliminar el archivo físico si ya no hay referencias activas
     try {
       const remaining = await pool.query(
@@ -0,0 +1,227 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { PoolClient } from 'pg';
+import { pool } from '../utils/db';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { nextChangeSeq, lockChangeSeq, currentChangeSeq } from '../utils/change-seq';
+import { replaceNoteContent } from '../utils/revisions';
+import { serverClock } from '../utils/hlc';
+import { notifySyncAvailable, SyncChange } from '../websocket/notifier';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+const ConflictIdSchema = z.string().uuid();
+
+const ResolveConflictSchema = z.discriminatedUnion('strategy', [
+  // Keep the note as it is now and discard the preserved copy
+  z.object({ strategy: z.literal('keep_current'), deviceId: z.string() }),
+  // Restore the preserved server version into the note and discard the copy
+  z.object({ strategy: z.literal('keep_conflict'), deviceId: z.string() }),
+  // Keep both notes; the copy becomes a regular note
+  z.object({ strategy: z.literal('keep_both'), deviceId: z.string() }),
+  // Write client-merged content into the note and discard the copy
+  z.object({ strategy: z.literal('merged'), deviceId: z.string(), content: z.string() }),
+]);
+
+function toConflictJson(row: any) {
+  return {
+    ...row,
+    server_updated_at: row.server_updated_at !== null ? Number(row.server_updated_at) : null,
+    client_updated_at: row.client_updated_at !== null ? Number(row.client_updated_at) : null,
+    created_at: Number(row.created_at),
+    resolved_at: row.resolved_at !== null ? Number(row.resolved_at) : null,
+  };
+}
+
+/**
+ * Tombstone a note so every device removes it on the next pull
+ */
+async function softDeleteNote(client: PoolClient, userId: string, noteUuid: string, deviceId: string): Promise<void> {
+  const now = Date.now();
+  await client.query(
+    `UPDATE notes
+     SET deleted_at = $3,
+         updated_at = GREATEST($3, updated_at + 1),
+         last_modified_by_device = $4,
+         deleted_by_device = $4,
+         change_seq = $5,
+         hlc = $6
+     WHERE user_id = $1 AND uuid = $2 AND deleted_at IS NULL`,
+    [userId, noteUuid, now, deviceId, await nextChangeSeq(client, userId), serverClock.now()]
+  );
+}
+
+// GET /api/sync/conflicts?status={unresolved|resolved|all} - List conflicts (default: unresolved)
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const status = typeof req.query.status === 'string' ? req.query.status : 'unresolved';
+
+    let filter: string;
+    if (status === 'unresolved') {
+      filter = 'AND c.resolved_at IS NULL';
+    } else if (status === 'resolved') {
+      filter = 'AND c.resolved_at IS NOT NULL';
+    } else if (status === 'all') {
+      filter = '';
+    } else {
+      return res.status(400).json({ error: 'status must be unresolved, resolved or all' });
+    }
+
+    const result = await pool.query(
+      `SELECT c.*, n.name AS note_name, n.path AS note_path, cn.path AS conflict_note_path
+       FROM conflicts c
+       LEFT JOIN notes n ON n.user_id = c.user_id AND n.uuid = c.note_uuid
+       LEFT JOIN notes cn ON cn.user_id = c.user_id AND cn.uuid = c.conflict_note_uuid
+       WHERE c.user_id = $1 ${filter}
+       ORDER BY c.created_at DESC`,
+      [userId]
+    );
+
+    res.json({ conflicts: result.rows.map(toConflictJson) });
+  } catch (error) {
+    console.error('List conflicts error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/sync/conflicts/:id - Get a conflict with both versions' content
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const id = ConflictIdSchema.parse(req.params.id);
+
+    const result = await pool.query(
+      `SELECT c.*,
+              n.name AS note_name, n.path AS note_path, n.content AS note_content,
+              cn.path AS conflict_note_path, cn.content AS conflict_note_content
+       FROM conflicts c
+       LEFT JOIN notes n ON n.user_id = c.user_id AND n.uuid = c.note_uuid
+       LEFT JOIN notes cn ON cn.user_id = c.user_id AND cn.uuid = c.conflict_note_uuid
+       WHERE c.user_id = $1 AND c.id = $2`,
+      [userId, id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Conflict not found' });
+    }
+
+    res.json({ conflict: toConflictJson(result.rows[0]) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid conflict id' });
+    }
+    console.error('Get conflict error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/sync/conflicts/:id/resolve - Resolve a conflict and notify other devices
+router.post('/:id/resolve', async (req: AuthRequest, res: Response) => {
+  const client = await pool.connect();
+  try {
+    const userId = req.userId!;
+    const id = ConflictIdSchema.parse(req.params.id);
+    const resolution = ResolveConflictSchema.parse(req.body);
+    const { deviceId } = resolution;
+
+    await client.query('BEGIN');
+    const baseSeq = await lockChangeSeq(client, userId);
+
+    const conflictResult = await client.query(
+      `SELECT * FROM conflicts WHERE user_id = $1 AND id = $2 FOR UPDATE`,
+      [userId, id]
+    );
+
+    if (conflictResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Conflict not found' });
+    }
+
+    const conflict = conflictResult.rows[0];
+    if (conflict.resolved_at !== null) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'Conflict already resolved', resolution: conflict.resolution });
+    }
+
+    const notesResult = await client.query(
+      `SELECT uuid, name, path, content, content_hash, last_modified_by_device, updated_at, deleted_at
+       FROM notes
+       WHERE user_id = $1 AND uuid = ANY($2)
+       FOR UPDATE`,
+      [userId, [conflict.note_uuid, conflict.conflict_note_uuid].filter(Boolean)]
+    );
+    const original = notesResult.rows.find(row => row.uuid === conflict.note_uuid);
+    const copy = notesResult.rows.find(row => row.uuid === conflict.conflict_note_uuid);
+
+    const writesOriginal = resolution.strategy === 'keep_conflict' || resolution.strategy === 'merged';
+    if (writesOriginal && (!original || original.deleted_at !== null)) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'Original note no longer exists' });
+    }
+    if (resolution.strategy === 'keep_conflict' && (!copy || copy.deleted_at !== null)) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'Conflict copy no longer exists' });
+    }
+
+    let note = null;
+    const changes: SyncChange[] = [];
+    if (writesOriginal) {
+      changes.push({ type: 'note', id: conflict.note_uuid, op: 'upsert' });
+    }
+    if (resolution.strategy === 'keep_conflict') {
+      note = await replaceNoteContent(client, userId, conflict.note_uuid, original, copy.content, deviceId);
+    } else if (resolution.strategy === 'merged') {
+      note = await replaceNoteContent(client, userId, conflict.note_uuid, original, resolution.content, deviceId);
+    }
+
+    if (resolution.strategy !== 'keep_both' && copy) {
+      await softDeleteNote(client, userId, copy.uuid, deviceId);
+      changes.push({ type: 'note', id: copy.uuid, op: 'delete' });
+    }
+
+    const resolvedAt = Date.now();
+    await client.query(
+      `UPDATE conflicts
+       SET resolved_at = $3, resolution = $4, resolved_by_device = $5
+       WHERE user_id = $1 AND id = $2`,
+      [userId, id, resolvedAt, resolution.strategy, deviceId]
+    );
+
+    const headSeq = await currentChangeSeq(client, userId);
+
+    await client.query('COMMIT');
+
+    notifySyncAvailable(userId, deviceId, {
+      conflictResolved: { id, noteUuid: conflict.note_uuid, resolution: resolution.strategy },
+      changes,
+      seq: headSeq,
+      baseSeq,
+    });
+
+    res.json({
+      success: true,
+      conflict: toConflictJson({
+        ...conflict,
+        resolved_at: resolvedAt,
+        resolution: resolution.strategy,
+        resolved_by_device: deviceId,
+      }),
+      note,
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Resolve conflict error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
@@ -0,0 +1,102 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { pool } from '../utils/db';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { normalizeFolderPath } from '../utils/folder-move';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+const FolderListSchema = z.array(z.string().min(1).max(500)).max(200);
+
+// Selective sync settings; omitted fields are left unchanged
+const SyncScopeSchema = z.object({
+  includeFolders: FolderListSchema.optional(),
+  excludeFolders: FolderListSchema.optional(),
+  maxAttachmentSize: z.number().int().positive().nullable().optional(),
+});
+
+function toDeviceJson(row: any) {
+  return {
+    deviceId: row.device_id,
+    deviceName: row.device_name,
+    lastSync: row.last_sync,
+    createdAt: row.created_at,
+    syncScope: {
+      includeFolders: row.sync_include_folders ?? [],
+      excludeFolders: row.sync_exclude_folders ?? [],
+      maxAttachmentSize: row.max_attachment_size !== null ? Number(row.max_attachment_size) : null,
+    },
+  };
+}
+
+function normalizeFolderList(folders: string[] | undefined): string[] | null {
+  if (folders === undefined) {
+    return null;
+  }
+  return [...new Set(folders.map(normalizeFolderPath).filter(Boolean))];
+}
+
+// GET /api/devices - List the user's devices with their sync settings
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+
+    const result = await pool.query(
+      `SELECT device_id, device_name, last_sync, created_at, sync_include_folders, sync_exclude_folders, max_attachment_size
+       FROM devices
+       WHERE user_id = $1
+       ORDER BY last_sync DESC NULLS LAST`,
+      [userId]
+    );
+
+    res.json({ devices: result.rows.map(toDeviceJson) });
+  } catch (error) {
+    console.error('List devices error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/devices/:deviceId/sync-scope - Choose which folders and attachments a device pulls
+router.put('/:deviceId/sync-scope', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { deviceId } = req.params;
+    const scope = SyncScopeSchema.parse(req.body);
+
+    const result = await pool.query(
+      `UPDATE devices
+       SET sync_include_folders = COALESCE($3, sync_include_folders),
+           sync_exclude_folders = COALESCE($4, sync_exclude_folders),
+           max_attachment_size = CASE WHEN $5 THEN $6::bigint ELSE max_attachment_size END
+       WHERE user_id = $1 AND device_id = $2
+       RETURNING device_id, device_name, last_sync, created_at, sync_include_folders, sync_exclude_folders, max_attachment_size`,
+      [
+        userId,
+        deviceId,
+        normalizeFolderList(scope.includeFolders),
+        normalizeFolderList(scope.excludeFolders),
+        scope.maxAttachmentSize !== undefined,
+        scope.maxAttachmentSize ?? null,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    // Items that entered the scope keep their old change_seq, so the device
+    // has to pull again from an empty cursor to receive them
+    res.json({ device: toDeviceJson(result.rows[0]), resyncRequired: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Update sync scope error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
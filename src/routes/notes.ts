@@ -1,7 +1,13 @@
 import { Router, Response } from 'express';
 import { z } from 'zod';
+import { Pool, PoolClient } from 'pg';
 import { pool } from '../utils/db';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { nextChangeSeq, lockChangeSeq } from '../utils/change-seq';
+import { serverClock } from '../utils/hlc';
+import { replaceNoteContent } from '../utils/revisions';
+import { diffLines, diffStats, splitLines } from '../utils/text-diff';
+import { notifySyncAvailable } from '../websocket/notifier';
 
 const router = Router();
 
@@ -54,27 +60,241 @@ router.get('/:uuid', async (req: AuthRequest, res: Response) => {
   }
 });
 
-// DELETE /api/notes/:uuid - Delete note
-router.delete('/:uuid', async (req: AuthRequest, res: Response) => {
+const RevisionIdSchema = z.string().uuid();
+
+const RestoreRevisionSchema = z.object({
+  deviceId: z.string().optional(),
+});
+
+// GET /api/notes/:uuid/revisions - List revisions of a note (newest first, without content)
+router.get('/:uuid/revisions', async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.userId!;
     const { uuid } = req.params;
-    
+
     const result = await pool.query(
-      `UPDATE notes SET deleted_at = EXTRACT(EPOCH FROM NOW()) * 1000
+      `SELECT id, note_uuid, name, path, content_hash, device_id, note_updated_at, created_at,
+              octet_length(content) AS content_size
+       FROM note_revisions
+       WHERE user_id = $1 AND note_uuid = $2
+       ORDER BY created_at DESC, id DESC`,
+      [userId, uuid]
+    );
+
+    const revisions = result.rows.map(row => ({
+      ...row,
+      note_updated_at: Number(row.note_updated_at),
+      created_at: Number(row.created_at),
+      content_size: row.content_size !== null ? Number(row.content_size) : 0,
+    }));
+
+    res.json({ revisions });
+  } catch (error) {
+    console.error('List revisions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/notes/:uuid/revisions/:revisionId - Get a revision with content
+router.get('/:uuid/revisions/:revisionId', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { uuid } = req.params;
+    const revisionId = RevisionIdSchema.parse(req.params.revisionId);
+
+    const revision = await findRevision(userId, uuid, revisionId);
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    res.json({ revision });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid revision id' });
+    }
+    console.error('Get revision error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/notes/:uuid/revisions/:revisionId/diff?against={revisionId|current}
+// Line diff from the revision to another revision or to the current note
+router.get('/:uuid/revisions/:revisionId/diff', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { uuid } = req.params;
+    const revisionId = RevisionIdSchema.parse(req.params.revisionId);
+    const against = typeof req.query.against === 'string' ? req.query.against : 'current';
+
+    const from = await findRevision(userId, uuid, revisionId);
+    if (!from) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    let to: { id: string; content: string | null; content_hash: string | null } | null;
+    if (against === 'current') {
+      const noteResult = await pool.query(
+        `SELECT content, content_hash FROM notes WHERE user_id = $1 AND uuid = $2`,
+        [userId, uuid]
+      );
+      to = noteResult.rows.length > 0 ? { id: 'current', ...noteResult.rows[0] } : null;
+    } else {
+      to = await findRevision(userId, uuid, RevisionIdSchema.parse(against));
+    }
+
+    if (!to) {
+      return res.status(404).json({ error: 'Comparison target not found' });
+    }
+
+    const ops = diffLines(splitLines(from.content ?? ''), splitLines(to.content ?? ''));
+
+    res.json({
+      from: { id: from.id, content_hash: from.content_hash },
+      to: { id: to.id, content_hash: to.content_hash },
+      ...diffStats(ops),
+      diff: ops,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid revision id' });
+    }
+    console.error('Diff revisions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/notes/:uuid/revisions/:revisionId/restore - Restore a revision as the current content
+// Goes through the sync path: the current content becomes a revision, the note gets
+// a new change_seq and the user's other devices are notified.
+router.post('/:uuid/revisions/:revisionId/restore', async (req: AuthRequest, res: Response) => {
+  const client = await pool.connect();
+  try {
+    const userId = req.userId!;
+    const { uuid } = req.params;
+    const revisionId = RevisionIdSchema.parse(req.params.revisionId);
+    const { deviceId } = RestoreRevisionSchema.parse(req.body ?? {});
+
+    await client.query('BEGIN');
+    // User row before the note row, in the same order as push
+    const baseSeq = await lockChangeSeq(client, userId);
+
+    const noteResult = await client.query(
+      `SELECT name, path, content, content_hash, last_modified_by_device, updated_at, deleted_at
+       FROM notes
        WHERE user_id = $1 AND uuid = $2
-       RETURNING uuid`,
+       FOR UPDATE`,
       [userId, uuid]
     );
-    
-    if (result.rows.length === 0) {
+
+    if (noteResult.rows.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(404).json({ error: 'Note not found' });
     }
+
+    const current = noteResult.rows[0];
+    if (current.deleted_at !== null) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ error: 'Note is deleted' });
+    }
+
+    const revision = await findRevision(userId, uuid, revisionId, client);
+    if (!revision) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const note = await replaceNoteContent(client, userId, uuid, current, revision.content, deviceId ?? 'server');
+
+    await client.query('COMMIT');
+
+    notifySyncAvailable(userId, deviceId ?? 'server', {
+      changes: [{ type: 'note', id: uuid, op: 'upsert' }],
+      seq: note.change_seq,
+      baseSeq,
+    });
+
+    res.json({ success: true, note });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Restore revision error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+async function findRevision(userId: string, noteUuid: string, revisionId: string, db: Pool | PoolClient = pool) {
+  const result = await db.query(
+    `SELECT id, note_uuid, name, path, content, content_hash, device_id, note_updated_at, created_at
+     FROM note_revisions
+     WHERE user_id = $1 AND note_uuid = $2 AND id = $3`,
+    [userId, noteUuid, revisionId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  return {
+    ...row,
+    note_updated_at: Number(row.note_updated_at),
+    created_at: Number(row.created_at),
+  };
+}
+
+// DELETE /api/notes/:uuid?deviceId= - Delete note (moves it to the trash)
+router.delete('/:uuid', async (req: AuthRequest, res: Response) => {
+  const client = await pool.connect();
+  try {
+    const userId = req.userId!;
+    const { uuid } = req.params;
+    const deviceId = typeof req.query.deviceId === 'string' ? req.query.deviceId : null;
     
+    await client.query('BEGIN');
+    const baseSeq = await lockChangeSeq(client, userId);
+
+    const existing = await client.query(
+      'SELECT deleted_at FROM notes WHERE user_id = $1 AND uuid = $2 FOR UPDATE',
+      [userId, uuid]
+    );
+
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Note not found' });
+    }
+
+    // Already in the trash: keep the tombstone's seq and hlc
+    if (existing.rows[0].deleted_at !== null) {
+      await client.query('ROLLBACK');
+      return res.json({ message: 'Note deleted successfully' });
+    }
+
+    const changeSeq = await nextChangeSeq(client, userId);
+    await client.query(
+      `UPDATE notes SET deleted_at = EXTRACT(EPOCH FROM NOW()) * 1000, deleted_by_device = $5, change_seq = $3, hlc = $4
+       WHERE user_id = $1 AND uuid = $2 AND deleted_at IS NULL`,
+      [userId, uuid, changeSeq, serverClock.now(), deviceId]
+    );
+
+    await client.query('COMMIT');
+
+    notifySyncAvailable(userId, deviceId ?? 'server', {
+      changes: [{ type: 'note', id: uuid, op: 'delete' }],
+      seq: changeSeq,
+      baseSeq,
+    });
+
     res.json({ message: 'Note deleted successfully' });
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Delete note error:', error);
     res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
   }
 });
 
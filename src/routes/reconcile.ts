@@ -0,0 +1,143 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { pool } from '../utils/db';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { loadSyncScope, folderInScope, notePathInScope, SyncScope } from '../utils/sync-scope';
+import { buildLeaves, childDigests, digestLeaves, sha256Hex, ReconcileType } from '../utils/merkle';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+// Buckets at or below this size return their leaves instead of child digests
+const LEAF_LIMIT = 64;
+// Largest bucket /rows will return in one response
+const MAX_RANGE_ROWS = 500;
+
+const RECONCILE_SOURCES: Record<ReconcileType, { key: string; columns: string }> = {
+  notes: { key: 'uuid', columns: 'uuid, content_hash, path' },
+  folders: { key: 'path', columns: 'path, hlc' },
+  calendar_events: { key: 'uuid', columns: 'uuid, hlc' },
+  databases: { key: 'uuid', columns: 'uuid, hlc' },
+};
+
+const TypeSchema = z.enum(['notes', 'folders', 'calendar_events', 'databases']);
+const PrefixSchema = z.string().regex(/^[0-9a-f]{0,16}$/, 'prefix must be lowercase hex');
+
+const ReconcileSchema = z.object({
+  type: TypeSchema.optional(),
+  prefix: PrefixSchema.optional(),
+  // Applies the device's selective sync settings, so digests match what it pulls
+  deviceId: z.string().optional(),
+});
+
+const RangeSchema = z.object({
+  type: TypeSchema,
+  prefix: PrefixSchema,
+  deviceId: z.string().optional(),
+});
+
+function inScope(type: ReconcileType, scope: SyncScope | null, row: any): boolean {
+  if (type === 'notes') return notePathInScope(scope, row.path);
+  if (type === 'folders') return folderInScope(scope, row.path);
+  return true;
+}
+
+// Rows whose bucket key (sha256 of the id, in hex) starts with `$n`
+function inBucket(type: ReconcileType, param: string): string {
+  return `starts_with(encode(sha256(convert_to(${RECONCILE_SOURCES[type].key}::text, 'UTF8')), 'hex'), ${param})`;
+}
+
+async function loadLiveRows(userId: string, type: ReconcileType, scope: SyncScope | null, prefix = ''): Promise<any[]> {
+  const result = await pool.query(
+    `SELECT ${RECONCILE_SOURCES[type].columns} FROM ${type}
+     WHERE user_id = $1 AND deleted_at IS NULL AND ($2::text = '' OR ${inBucket(type, '$2::text')})`,
+    [userId, prefix]
+  );
+  return result.rows.filter(row => inScope(type, scope, row));
+}
+
+function toRowJson(row: any) {
+  const json: Record<string, unknown> = { ...row };
+  for (const field of ['created_at', 'updated_at', 'deleted_at', 'change_seq', 'start_time', 'end_time', 'recurrence_end']) {
+    if (json[field] !== undefined && json[field] !== null) {
+      json[field] = Number(json[field]);
+    }
+  }
+  delete json.user_id;
+  return json;
+}
+
+// POST /api/sync/reconcile - Digests of the user's data ({ type?, prefix?, deviceId? })
+// Without a type: one digest per entity type plus a root digest.
+// With a type: the digest of `prefix` and either its child digests or, for small buckets, its leaves.
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { type, prefix = '', deviceId } = ReconcileSchema.parse(req.body);
+    const scope = await loadSyncScope(pool, userId, deviceId);
+
+    if (!type) {
+      const types: Record<string, { digest: string; count: number }> = {};
+      for (const t of TypeSchema.options) {
+        const leaves = buildLeaves(t, await loadLiveRows(userId, t, scope));
+        types[t] = { digest: digestLeaves(leaves), count: leaves.length };
+      }
+      const root = sha256Hex(TypeSchema.options.map(t => types[t].digest).join(''));
+      return res.json({ root, types, timestamp: Date.now() });
+    }
+
+    const leaves = buildLeaves(type, await loadLiveRows(userId, type, scope, prefix));
+    const bucket = { type, prefix, digest: digestLeaves(leaves), count: leaves.length };
+
+    if (leaves.length <= LEAF_LIMIT) {
+      return res.json({ ...bucket, leaves: leaves.map(leaf => ({ id: leaf.id, key: leaf.key, hash: leaf.hash })) });
+    }
+    res.json({ ...bucket, children: childDigests(leaves, prefix) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Reconcile error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/sync/reconcile/rows - Full rows (tombstones included) of one bucket ({ type, prefix, deviceId? })
+router.post('/rows', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { type, prefix, deviceId } = RangeSchema.parse(req.body);
+    const scope = await loadSyncScope(pool, userId, deviceId);
+    const { key } = RECONCILE_SOURCES[type];
+
+    const keys = await pool.query(
+      `SELECT ${key} AS id, ${type === 'notes' || type === 'folders' ? 'path' : 'NULL AS path'} FROM ${type}
+       WHERE user_id = $1 AND ${inBucket(type, '$2::text')}`,
+      [userId, prefix]
+    );
+    const ids = keys.rows
+      .filter(row => inScope(type, scope, row))
+      .map(row => row.id);
+
+    if (ids.length > MAX_RANGE_ROWS) {
+      return res.status(400).json({ error: `Range holds ${ids.length} rows; use a longer prefix`, count: ids.length });
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM ${type} WHERE user_id = $1 AND ${key} = ANY($2)`,
+      [userId, ids]
+    );
+
+    res.json({ type, prefix, rows: result.rows.map(toRowJson) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Reconcile rows error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
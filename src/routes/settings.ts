@@ -2,99 +2,185 @@ import { Router, Response } from 'express';
 import { z } from 'zod';
 import { pool } from '../utils/db';
 import { AuthRequest, authenticateToken } from '../middleware/auth';
+import { SETTINGS_FIELDS } from '../utils/field-merge';
+import { lockChangeSeq } from '../utils/change-seq';
+import {
+  SettingsSchema,
+  loadSettings,
+  applySettings,
+  loadDeviceOverrides,
+  applyDeviceOverrides,
+  layerSettings,
+} from '../utils/settings-sync';
+import { notifySyncAvailable } from '../websocket/notifier';
 
 const router = Router();
 
-// Validation schema for user settings
-const settingsSchema = z.object({
-  openrouterApiKey: z.string().optional(),
-  chatModel: z.string().optional(),
-  embeddingModel: z.string().optional(),
-  braveApiKey: z.string().optional(),
-  allowVsCodeCopilotWrapper: z.boolean().optional(),
+// Sync metadata sent alongside the settings keys
+const settingsSyncSchema = z.object({
+  deviceId: z.string().optional(),
+  hlc: z.string().optional(),
+  // Per-key stamps, e.g. { "chatModel": "<hlc>" }
+  field_hlcs: z.record(z.string()).optional(),
 });
 
-// GET /api/settings - Get user settings
+// GET /api/settings - Get user settings (?deviceId= layers that device's overrides on top)
 router.get('/', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.userId!;
+    const deviceId = typeof req.query.deviceId === 'string' ? req.query.deviceId : null;
     
-    const result = await pool.query(
-      'SELECT settings FROM users WHERE id = $1',
-      [userId]
-    );
+    const synced = await loadSettings(pool, userId);
     
-    if (result.rows.length === 0) {
+    if (!synced) {
       return res.status(404).json({ error: 'User not found' });
     }
     
-    // Return settings or empty object if null
-    const settings = result.rows[0].settings || {};
-    res.json({ settings });
+    const device = deviceId ? await loadDeviceOverrides(pool, userId, deviceId) : null;
+    res.json({
+      ...synced,
+      overrides: device?.overrides ?? {},
+      ...layerSettings(synced.settings, device?.overrides ?? null),
+    });
   } catch (error) {
     console.error('Error fetching settings:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// PUT /api/settings - Update user settings
-router.put('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+/**
+ * Merge settings per key and tell the user's other devices to pull
+ */
+async function updateSettings(req: AuthRequest, res: Response, replace: boolean) {
+  const client = await pool.connect();
   try {
     const userId = req.userId!;
-    const settings = settingsSchema.parse(req.body);
-    
-    // Update settings in database
-    await pool.query(
-      'UPDATE users SET settings = $1, updated_at = NOW() WHERE id = $2',
-      [JSON.stringify(settings), userId]
-    );
-    
-    res.json({ success: true, settings });
+    const parsed = SettingsSchema.parse(req.body);
+    const { deviceId, hlc, field_hlcs } = settingsSyncSchema.parse(req.body);
+
+    // PUT replaces the whole object: keys it leaves out are cleared
+    const incoming = replace
+      ? Object.fromEntries(SETTINGS_FIELDS.map(key => [key, parsed[key] ?? null]))
+      : parsed;
+
+    await client.query('BEGIN');
+    const result = await applySettings(client, userId, incoming, hlc, field_hlcs);
+    if (!result) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'User not found' });
+    }
+    await client.query('COMMIT');
+
+    if (result.accepted.length > 0) {
+      console.log(`⚙️ Settings updated for user ${userId}: ${result.accepted.join(', ')}`);
+      notifySyncAvailable(userId, deviceId ?? 'server', {
+        changes: [{ type: 'settings', id: 'account', op: 'upsert' }],
+        seq: result.change_seq,
+        baseSeq: result.change_seq - 1,
+      });
+    }
+
+    res.json({ success: true, ...result });
   } catch (error) {
+    await client.query('ROLLBACK');
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid settings format', details: error.errors });
     }
     console.error('Error updating settings:', error);
     res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
   }
-});
+}
+
+// PUT /api/settings - Update user settings
+router.put('/', authenticateToken, (req: AuthRequest, res: Response) => updateSettings(req, res, true));
 
 // PATCH /api/settings - Partially update user settings
-router.patch('/', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.patch('/', authenticateToken, (req: AuthRequest, res: Response) => updateSettings(req, res, false));
+
+/**
+ * Set a device's overrides and return its effective settings
+ */
+async function updateDeviceOverrides(req: AuthRequest, res: Response, mode: 'replace' | 'patch' | 'clear') {
+  const client = await pool.connect();
   try {
     const userId = req.userId!;
-    const partialSettings = settingsSchema.partial().parse(req.body);
-    
-    // Get current settings
-    const result = await pool.query(
-      'SELECT settings FROM users WHERE id = $1',
-      [userId]
-    );
-    
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'User not found' });
+    const { deviceId } = req.params;
+    const incoming = mode === 'clear' ? {} : SettingsSchema.parse(req.body);
+    const replace = mode !== 'patch';
+
+    await client.query('BEGIN');
+    const baseSeq = await lockChangeSeq(client, userId);
+    const device = await applyDeviceOverrides(client, userId, deviceId, incoming, replace);
+    if (!device) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Device not found' });
     }
-    
-    // Merge with existing settings
-    const currentSettings = result.rows[0].settings || {};
-    const mergedSettings = { ...currentSettings, ...partialSettings };
-    
-    // Update settings in database
-    await pool.query(
-      'UPDATE users SET settings = $1, updated_at = NOW() WHERE id = $2',
-      [JSON.stringify(mergedSettings), userId]
-    );
-    
-    res.json({ success: true, settings: mergedSettings });
+    const synced = await loadSettings(client, userId);
+    await client.query('COMMIT');
+
+    // The overridden device may not be the one making the change, so notify every device
+    if (device.change_seq > baseSeq) {
+      notifySyncAvailable(userId, 'server', {
+        changes: [{ type: 'device_settings', id: deviceId, op: 'upsert' }],
+        seq: device.change_seq,
+        baseSeq,
+      });
+    }
+
+    res.json({
+      success: true,
+      deviceId,
+      overrides: device.overrides,
+      change_seq: device.change_seq,
+      ...layerSettings(synced?.settings ?? {}, device.overrides),
+    });
   } catch (error) {
+    await client.query('ROLLBACK');
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid settings format', details: error.errors });
     }
-    console.error('Error updating settings:', error);
+    console.error('Error updating device settings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+}
+
+// GET /api/settings/devices/:deviceId - Overrides of one device and its effective settings
+router.get('/devices/:deviceId', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { deviceId } = req.params;
+
+    const device = await loadDeviceOverrides(pool, userId, deviceId);
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+    const synced = await loadSettings(pool, userId);
+
+    res.json({
+      deviceId,
+      overrides: device.overrides,
+      change_seq: device.change_seq,
+      ...layerSettings(synced?.settings ?? {}, device.overrides),
+    });
+  } catch (error) {
+    console.error('Error fetching device settings:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// PUT /api/settings/devices/:deviceId - Replace a device's overrides
+router.put('/devices/:deviceId', authenticateToken, (req: AuthRequest, res: Response) => updateDeviceOverrides(req, res, 'replace'));
+
+// PATCH /api/settings/devices/:deviceId - Set some overrides (null falls back to the account value)
+router.patch('/devices/:deviceId', authenticateToken, (req: AuthRequest, res: Response) => updateDeviceOverrides(req, res, 'patch'));
+
+// DELETE /api/settings/devices/:deviceId - Remove all of a device's overrides
+router.delete('/devices/:deviceId', authenticateToken, (req: AuthRequest, res: Response) => updateDeviceOverrides(req, res, 'clear'));
+
 // GET /api/settings/storage - Get storage usage info
 router.get('/storage', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
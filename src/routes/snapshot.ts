@@ -0,0 +1,216 @@
+import { Router, Response } from 'express';
+import { once } from 'events';
+import { PoolClient } from 'pg';
+import { pool } from '../utils/db';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { currentChangeSeq, encodeCursor } from '../utils/change-seq';
+import { serverClock } from '../utils/hlc';
+import { recordPull } from '../utils/device-status';
+import { loadSyncScope, folderInScope, notePathInScope, attachmentInScope, SyncScope } from '../utils/sync-scope';
+import {
+  notePath,
+  noteToJson,
+  folderToJson,
+  calendarEventToJson,
+  databaseToJson,
+  databaseItemToJson,
+  databaseCellToJson,
+  attachmentToJson,
+  settingsToJson,
+} from '../utils/sync-rows';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+// Rows fetched from each database cursor per round trip
+const FETCH_SIZE = 200;
+
+interface SnapshotSource {
+  type: string;
+  query: string;
+  toJson: (row: any) => unknown;
+  inScope?: (scope: SyncScope | null, row: any) => boolean;
+}
+
+// Folders first so devices can place notes as they arrive
+function snapshotSources(includeDatabaseSnapshots: boolean): SnapshotSource[] {
+  return [
+    {
+      type: 'folder',
+      query: 'SELECT * FROM folders WHERE user_id = $1 AND deleted_at IS NULL ORDER BY path',
+      toJson: folderToJson,
+      inScope: (scope, row) => folderInScope(scope, row.path),
+    },
+    {
+      type: 'note',
+      query: 'SELECT * FROM notes WHERE user_id = $1 AND deleted_at IS NULL ORDER BY change_seq',
+      toJson: noteToJson,
+      inScope: (scope, row) => notePathInScope(scope, notePath(row)),
+    },
+    {
+      // Attachment metadata; files are downloaded separately. As in /pull, an
+      // attachment follows its note's scope and the device's size limit.
+      type: 'attachment',
+      query: `SELECT a.id, a.note_uuid, a.file_name, a.file_hash, a.file_size, a.mime_type,
+                     a.created_at, a.updated_at, a.deleted_at, a.change_seq,
+                     n.path AS note_path, n.folder AS note_folder, n.name AS note_name
+              FROM attachments a
+              LEFT JOIN notes n ON n.user_id = a.user_id AND n.uuid = a.note_uuid
+              WHERE a.user_id = $1 AND a.deleted_at IS NULL
+              ORDER BY a.change_seq`,
+      toJson: attachmentToJson,
+      inScope: (scope, row) =>
+        (row.note_name === null || notePathInScope(scope, notePath({ path: row.note_path, folder: row.note_folder, name: row.note_name })))
+        && attachmentInScope(scope, Number(row.file_size)),
+    },
+    {
+      type: 'calendar_event',
+      query: 'SELECT * FROM calendar_events WHERE user_id = $1 AND deleted_at IS NULL ORDER BY change_seq',
+      toJson: calendarEventToJson,
+    },
+    {
+      type: 'database',
+      query: `SELECT uuid, name, icon, ${includeDatabaseSnapshots ? 'snapshot' : 'NULL AS snapshot'}, created_at, updated_at, deleted_at, change_seq, hlc
+              FROM databases WHERE user_id = $1 AND deleted_at IS NULL ORDER BY change_seq`,
+      toJson: databaseToJson,
+    },
+    {
+      type: 'database_item',
+      query: `SELECT database_uuid, kind, item_id, position, data, updated_at, deleted_at, change_seq, hlc
+              FROM database_items WHERE user_id = $1 AND deleted_at IS NULL ORDER BY change_seq`,
+      toJson: databaseItemToJson,
+    },
+    {
+      type: 'database_cell',
+      query: `SELECT database_uuid, row_id, column_id, value, updated_at, deleted_at, change_seq, hlc
+              FROM database_cells WHERE user_id = $1 AND deleted_at IS NULL ORDER BY change_seq`,
+      toJson: databaseCellToJson,
+    },
+  ];
+}
+
+function isClosed(res: Response): boolean {
+  return res.destroyed || res.writableEnded;
+}
+
+/**
+ * Write one NDJSON line, waiting for the socket to drain when its buffer is full
+ * Returns false once the response is closed. A closed response never emits
+ * 'drain' or 'close' again, so it must not be waited on.
+ */
+async function writeLine(res: Response, value: unknown): Promise<boolean> {
+  if (isClosed(res)) {
+    return false;
+  }
+  if (!res.write(JSON.stringify(value) + '\n')) {
+    if (isClosed(res)) {
+      return false;
+    }
+    await Promise.race([once(res, 'drain'), once(res, 'close')]);
+  }
+  return !isClosed(res);
+}
+
+/**
+ * Stream every live row of one source through a server-side cursor
+ */
+async function streamSource(client: PoolClient, res: Response, userId: string, source: SnapshotSource, scope: SyncScope | null, isAborted: () => boolean): Promise<number> {
+  await client.query(`DECLARE snapshot_rows NO SCROLL CURSOR FOR ${source.query}`, [userId]);
+
+  let count = 0;
+  while (!isAborted()) {
+    const batch = await client.query(`FETCH ${FETCH_SIZE} FROM snapshot_rows`);
+    for (const row of batch.rows) {
+      if (source.inScope && !source.inScope(scope, row)) {
+        continue;
+      }
+      if (!(await writeLine(res, { type: source.type, data: source.toJson(row) }))) {
+        break;
+      }
+      count++;
+    }
+    if (batch.rows.length < FETCH_SIZE || isClosed(res)) {
+      break;
+    }
+  }
+
+  await client.query('CLOSE snapshot_rows');
+  return count;
+}
+
+// GET /api/sync/snapshot - Every live entity as newline-delimited JSON (?deviceId=&includeDatabaseSnapshots=false)
+// Each line is { type, data }, with the user's settings after the entities; the last line is
+// { type: "end", cursor, counts } and the cursor continues with /api/sync/pull. A stream
+// without the end line is incomplete.
+router.get('/', async (req: AuthRequest, res: Response) => {
+  const userId = req.userId!;
+  const deviceId = typeof req.query.deviceId === 'string' ? req.query.deviceId : undefined;
+  const includeDatabaseSnapshots = req.query.includeDatabaseSnapshots !== 'false';
+
+  let aborted = false;
+  res.on('close', () => { aborted = !res.writableFinished; });
+  const isAborted = () => aborted || isClosed(res);
+
+  const client = await pool.connect();
+  try {
+    // One snapshot for every table and the head sequence, as in /pull
+    await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+    const headSeq = await currentChangeSeq(client, userId);
+    const scope = await loadSyncScope(client, userId, deviceId);
+
+    res.status(200);
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-store');
+
+    const counts: Record<string, number> = {};
+    for (const source of snapshotSources(includeDatabaseSnapshots)) {
+      counts[source.type] = await streamSource(client, res, userId, source, scope, isAborted);
+      if (isAborted()) break;
+    }
+
+    if (!isAborted()) {
+      const settings = await client.query(
+        `SELECT u.settings, u.settings_hlcs, u.settings_seq, d.settings_overrides
+         FROM users u
+         LEFT JOIN devices d ON d.user_id = u.id AND d.device_id = $2::text
+         WHERE u.id = $1`,
+        [userId, deviceId ?? null]
+      );
+      await writeLine(res, { type: 'settings', data: settingsToJson(settings.rows[0]) });
+    }
+
+    if (isAborted()) {
+      await client.query('ROLLBACK');
+      console.warn(`⚠️ Snapshot stream for user ${userId} closed by the client`);
+      return;
+    }
+
+    await client.query('COMMIT');
+
+    // Tombstones older than the snapshot are skipped by later pulls, as after a paginated first pull
+    const snapshotCursor = { seq: headSeq, bootstrapSeq: headSeq };
+    const cursor = encodeCursor(snapshotCursor);
+    if (deviceId) {
+      await recordPull(client, userId, deviceId, snapshotCursor);
+    }
+
+    console.log(`📦 Streamed snapshot for user ${userId}:`, counts);
+    await writeLine(res, { type: 'end', cursor, counts, hlc: serverClock.now(), timestamp: Date.now() });
+    res.end();
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Snapshot error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    } else {
+      // Headers are gone; the missing end line tells the client the snapshot failed
+      res.end(JSON.stringify({ type: 'error', error: 'Internal server error' }) + '\n');
+    }
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
@@ -0,0 +1,80 @@
+import { Router, Response } from 'express';
+import { pool } from '../utils/db';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { currentChangeSeq, SyncCursor } from '../utils/change-seq';
+import { countChangesSince } from '../utils/device-status';
+import { getDeviceConnections } from '../websocket/notifier';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+// GET /api/sync/status - Sync diagnostics per device (?deviceId= for a single device)
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const deviceId = typeof req.query.deviceId === 'string' ? req.query.deviceId : null;
+
+    const result = await pool.query(
+      `SELECT device_id, device_name, last_sync, last_pull_at, last_pull_seq, last_pull_bootstrap_seq, last_push_at, clock_skew_ms, recent_rejections, recent_conflicts
+       FROM devices
+       WHERE user_id = $1 AND ($2::text IS NULL OR device_id = $2)
+       ORDER BY last_sync DESC NULLS LAST`,
+      [userId, deviceId]
+    );
+
+    if (deviceId && result.rows.length === 0) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    const headSeq = await currentChangeSeq(pool, userId);
+    const compacted = await pool.query('SELECT compacted_seq FROM users WHERE id = $1', [userId]);
+    const compactedSeq = Number(compacted.rows[0]?.compacted_seq ?? 0);
+    const connections = getDeviceConnections(userId);
+
+    const devices = [];
+    for (const row of result.rows) {
+      const cursorSeq = row.last_pull_seq !== null ? Number(row.last_pull_seq) : null;
+      const cursor: SyncCursor | null = cursorSeq !== null ? { seq: cursorSeq } : null;
+      if (cursor && row.last_pull_bootstrap_seq !== null) {
+        cursor.bootstrapSeq = Number(row.last_pull_bootstrap_seq);
+      }
+      // Pull answers such a cursor with a full resync instead of changes
+      const resyncRequired = cursor !== null && cursor.seq > 0 && cursor.seq < compactedSeq;
+      const sockets = connections.filter(connection => connection.deviceId === row.device_id);
+      const connectedAt = sockets.map(socket => socket.connectedAt).filter((at): at is number => at !== null);
+
+      devices.push({
+        deviceId: row.device_id,
+        deviceName: row.device_name,
+        lastSync: row.last_sync,
+        lastPullAt: row.last_pull_at !== null ? Number(row.last_pull_at) : null,
+        lastPushAt: row.last_push_at !== null ? Number(row.last_push_at) : null,
+        // serverTime - clientTime at the device's last push that sent clientTimestamp
+        clockSkewMs: row.clock_skew_ms !== null ? Number(row.clock_skew_ms) : null,
+        cursorSeq,
+        // Changes (including the device's own pushes) its next pulls return after the cursor of its last pull
+        pendingChanges: cursor !== null && !resyncRequired ? await countChangesSince(pool, userId, row.device_id, cursor, headSeq) : null,
+        resyncRequired,
+        recentRejections: row.recent_rejections,
+        recentConflicts: row.recent_conflicts,
+        websocket: {
+          connected: sockets.length > 0,
+          connections: sockets.length,
+          connectedAt: connectedAt.length > 0 ? Math.min(...connectedAt) : null,
+          alive: sockets.some(socket => socket.alive),
+          // Connected to another server instance (WS_BROKER)
+          remote: sockets.length > 0 && sockets.every(socket => socket.remote),
+        },
+      });
+    }
+
+    res.json({ headSeq, devices, timestamp: Date.now() });
+  } catch (error) {
+    console.error('Sync status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -3,11 +3,50 @@ import { z } from 'zod';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { randomUUID } from 'crypto';
+import { PoolClient, QueryResult } from 'pg';
 import pool from '../utils/db';
+import {
+  nextChangeSeq,
+  currentChangeSeq,
+  lockChangeSeq,
+  encodeCursor,
+  decodeCursor,
+  bootstrapSeqOf,
+  pendingChangesQuery,
+  LIVE_OR_RECENTLY_DELETED,
+  ANY_CHANGE,
+  ATTACHMENT_PURGES,
+  InvalidCursorError,
+  SyncCursor,
+} from '../utils/change-seq';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { notifySyncAvailable, SyncChange } from '../websocket/notifier';
+import { recordRevision, findContentAtSeq } from '../utils/revisions';
+import { merge3, splitLines } from '../utils/text-diff';
+import { hashContent, CONTENT_HASH_MODE } from '../utils/content-hash';
+import { applyContentDelta, createContentDelta, deltaIsSmaller, ContentDeltaError, DeltaOp } from '../utils/content-delta';
+import { serverClock, formatHlc, parseHlc, compareHlc } from '../utils/hlc';
+import { claimBatch, saveBatchResponse, claimOperation, pruneIdempotencyRecords } from '../utils/idempotency';
+import { mergeFields, stampFields, unstampedFields, FieldHlcs, NOTE_METADATA_FIELDS, FOLDER_METADATA_FIELDS } from '../utils/field-merge';
+import { moveFolder, FolderMoveError } from '../utils/folder-move';
+import { loadSyncScope, folderInScope, notePathInScope, attachmentInScope } from '../utils/sync-scope';
+import { applySnapshot, isGranularSnapshot, rebuildSnapshot, upsertDatabaseItems, upsertDatabaseCells } from '../utils/database-items';
+import { recordPull, recordPush } from '../utils/device-status';
+import {
+  notePath,
+  noteToJson,
+  folderToJson,
+  calendarEventToJson,
+  databaseToJson,
+  databaseItemToJson,
+  databaseCellToJson,
+  attachmentToJson,
+  attachmentPurgeToJson,
+  settingsToJson,
+} from '../utils/sync-rows';
+import { SettingsSchema, applySettings } from '../utils/settings-sync';
 
 const router = Router();
-let wsServer: any = null;
 
 function toFiniteTimestamp(value: unknown): number | null {
   if (typeof value === 'bigint') {
@@ -74,13 +113,236 @@ function normalizeNullableTimestamp(value: unknown): number | null {
   return Number.isFinite(safe) ? safe : null;
 }
 
-export function setWebSocketServer(ws: any) {
-  wsServer = ws;
+/**
+ * HLC stamp for an incoming entity change
+ * Clients that send an hlc are ordered by it. Legacy clients get a stamp derived
+ * from their offset-corrected timestamp, so comparisons keep their old meaning.
+ */
+function stampHlc(clientHlc: string | undefined, legacyTimestamp: number, deviceId: string): string {
+  if (clientHlc) {
+    const accepted = serverClock.receive(clientHlc);
+    if (accepted) {
+      return accepted;
+    }
+    console.warn(`🕒 Untrusted HLC "${clientHlc}" from device ${deviceId}, stamping with server clock`);
+    return serverClock.now();
+  }
+  return serverClock.receive(formatHlc({ wall: legacyTimestamp, counter: 0, node: deviceId })) ?? serverClock.now();
+}
+
+interface FieldMergeReport {
+  type: 'note' | 'folder';
+  id: string;
+  accepted: string[];
+  rejected: string[];
+}
+
+/**
+ * Canonical hash of a stored note; rows written before server-side hashing may
+ * carry a client-computed hash
+ */
+function storedContentHash(row: { content: string | null; content_hash: string | null }): string | null {
+  return row.content !== null ? hashContent(row.content) : row.content_hash;
+}
+
+interface HashMismatch {
+  uuid: string;
+  name: string;
+  clientHash: string;
+  serverHash: string;
+  action: 'corrected' | 'rejected';
+}
+
+interface DeltaRejection {
+  uuid: string;
+  name: string;
+  reason: 'base_mismatch' | 'invalid_delta' | 'hash_mismatch';
+  error: string;
+  serverHash: string | null;
+}
+
+/**
+ * Rebuild the full content of a note pushed as a delta
+ * The base is the current server version or, if the server moved on since, a
+ * revision with the delta's base hash (the push then goes through the usual
+ * three-way merge). Returns a rejection when the base cannot be found, the
+ * ops do not fit it, or the result does not hash to the client's content_hash.
+ */
+async function resolveContentDelta(
+  client: PoolClient,
+  userId: string,
+  note: { uuid: string; name: string; content_hash?: string | null; content_delta?: { base_hash: string; ops: DeltaOp[] } }
+): Promise<{ content: string } | DeltaRejection> {
+  const delta = note.content_delta!;
+  const current = await client.query(
+    'SELECT content, content_hash FROM notes WHERE user_id = $1 AND uuid = $2',
+    [userId, note.uuid]
+  );
+  const serverHash = current.rows.length > 0 ? storedContentHash(current.rows[0]) : null;
+  const reject = (reason: DeltaRejection['reason'], error: string): DeltaRejection =>
+    ({ uuid: note.uuid, name: note.name, reason, error, serverHash });
+
+  let base: string | null = null;
+  if (current.rows.length > 0 && (delta.base_hash === serverHash || delta.base_hash === current.rows[0].content_hash)) {
+    base = current.rows[0].content ?? '';
+  } else {
+    base = await findBaseContent(client, userId, note.uuid, delta.base_hash);
+  }
+  if (base === null) {
+    return reject('base_mismatch', 'Base version of the delta is not known to the server, push the full content');
+  }
+
+  let content: string;
+  try {
+    content = applyContentDelta(base, delta.ops);
+  } catch (error) {
+    if (!(error instanceof ContentDeltaError)) {
+      throw error;
+    }
+    return reject('invalid_delta', error.message);
+  }
+
+  if (hashContent(content) !== note.content_hash) {
+    return reject('hash_mismatch', 'Content rebuilt from the delta does not match content_hash');
+  }
+  return { content };
+}
+
+/**
+ * Replace a pulled note's content with a delta from `base` when that is smaller
+ * The client applies it only if its local content hashes to base_hash, and
+ * otherwise fetches the note from /api/notes/:uuid.
+ */
+function withContentDelta<T extends { content: string | null; deleted_at: number | null }>(
+  base: { content: string | null } | undefined,
+  note: T
+): T | (Omit<T, 'content'> & { content_delta: { base_hash: string; ops: DeltaOp[] } }) {
+  if (!base || base.content === null || note.content === null || note.deleted_at !== null) {
+    return note;
+  }
+  const ops = createContentDelta(base.content, note.content);
+  if (!deltaIsSmaller(ops, note.content)) {
+    return note;
+  }
+  const { content, ...rest } = note;
+  return { ...rest, content_delta: { base_hash: hashContent(base.content), ops } };
+}
+
+interface PushConflict {
+  uuid: string;
+  name: string;
+  reason: string;
+  resolution: 'auto_merged' | 'conflicted';
+  mergedContentHash?: string;
+  conflictId?: string;
+  conflictUuid?: string | null;
+  conflictPath?: string;
+  clientTimestamp: number;
+  serverTimestamp: number;
+}
+
+/**
+ * Look up the content a client based its edit on in the note's revision history
+ */
+async function findBaseContent(client: PoolClient, userId: string, noteUuid: string, baseHash: string): Promise<string | null> {
+  const result = await client.query(
+    `SELECT content FROM note_revisions
+     WHERE user_id = $1 AND note_uuid = $2 AND content_hash = $3
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [userId, noteUuid, baseHash]
+  );
+  return result.rows.length > 0 ? (result.rows[0].content ?? '') : null;
+}
+
+/**
+ * Keep the current server version of a note as a separate "[conflict]" note
+ * and open a conflicts record linking it to the original note
+ */
+async function preserveConflictCopy(
+  client: PoolClient,
+  userId: string,
+  existingRow: any,
+  note: { uuid: string; name: string; content_hash?: string | null },
+  fallbackPath: string,
+  reason: string,
+  clientDeviceId: string,
+  clientUpdatedAt: number
+): Promise<{ conflictId: string; conflictUuid: string | null; conflictPath: string }> {
+  const serverUpdatedAt = toFiniteTimestamp(existingRow.updated_at) ?? 0;
+  const conflictTimestamp = Math.max(serverUpdatedAt, clientUpdatedAt) + 1;
+  const safeDeviceId = String(existingRow.last_modified_by_device || 'unknown')
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]/g, '-')
+    .slice(0, 24);
+  const conflictPath = `${existingRow.path || fallbackPath}.conflict-${safeDeviceId}-${conflictTimestamp}`;
+
+  const copyResult = await client.query(
+    `INSERT INTO notes (
+       user_id, uuid, name, path, folder, content, content_hash, order_index,
+       icon, icon_color, created_at, updated_at, deleted_at, is_favorite, last_modified_by_device, change_seq, hlc
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NULL, $13, $14, $15, $16)
+     ON CONFLICT (user_id, path) DO NOTHING
+     RETURNING uuid`,
+    [
+      userId,
+      randomUUID(),
+      `${existingRow.name || note.name} [conflict]`,
+      conflictPath,
+      existingRow.folder,
+      existingRow.content,
+      storedContentHash(existingRow),
+      existingRow.order_index,
+      existingRow.icon,
+      existingRow.icon_color,
+      toFiniteTimestamp(existingRow.created_at) ?? conflictTimestamp,
+      conflictTimestamp,
+      existingRow.is_favorite ?? 0,
+      existingRow.last_modified_by_device,
+      await nextChangeSeq(client, userId),
+      serverClock.now(),
+    ]
+  );
+
+  const conflictUuid = copyResult.rows.length > 0 ? copyResult.rows[0].uuid : null;
+
+  const conflictResult = await client.query(
+    `INSERT INTO conflicts (
+       user_id, note_uuid, conflict_note_uuid, reason,
+       server_device_id, client_device_id, server_content_hash, client_content_hash,
+       server_updated_at, client_updated_at, created_at
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+     RETURNING id`,
+    [
+      userId,
+      note.uuid,
+      conflictUuid,
+      reason,
+      existingRow.last_modified_by_device,
+      clientDeviceId,
+      existingRow.content_hash,
+      note.content_hash ?? null,
+      serverUpdatedAt,
+      clientUpdatedAt,
+      Date.now(),
+    ]
+  );
+
+  console.warn(`🛡️ Preserved server version as conflict copy at path: ${conflictPath}`);
+  return { conflictId: conflictResult.rows[0].id, conflictUuid, conflictPath };
 }
 
 router.use(authenticateToken);
 
 // Schemas
+const DeltaOpSchema = z.union([
+  z.object({ retain: z.number().int().positive() }),
+  z.object({ delete: z.number().int().positive() }),
+  z.object({ insert: z.array(z.string()) }),
+]);
+
 const NoteSchema = z.object({
   uuid: z.string(),
   name: z.string(),
@@ -88,6 +350,14 @@ const NoteSchema = z.object({
   folder: z.string().nullable().optional(),
   content: z.string().nullable().optional(),
   content_hash: z.string().nullable().optional(),
+  // Line patch against the version hashed base_hash, sent instead of content;
+  // content_hash must be the hash of the patched content
+  content_delta: z.object({
+    base_hash: z.string(),
+    ops: z.array(DeltaOpSchema),
+  }).optional(),
+  // content_hash of the server version this edit started from (enables three-way merge)
+  base_content_hash: z.string().nullable().optional(),
   order_index: z.number().optional(),
   icon: z.string().nullable().optional(),
   icon_color: z.string().nullable().optional(),
@@ -95,6 +365,12 @@ const NoteSchema = z.object({
   updated_at: z.number(),
   deleted_at: z.number().nullable().optional(),
   is_favorite: z.number().optional(), // 0 or 1
+  op_id: z.string().max(100).optional(),
+  hlc: z.string().optional(),
+  // Per-field stamps for metadata fields, e.g. { "is_favorite": "<hlc>" }
+  field_hlcs: z.record(z.string()).optional(),
+}).refine(note => !note.content_delta || (note.content == null && !!note.content_hash), {
+  message: 'content_delta requires content_hash and cannot be combined with content',
 });
 
 const FolderSchema = z.object({
@@ -109,6 +385,10 @@ const FolderSchema = z.object({
   is_locked: z.boolean().optional(),
   password_hash: z.string().nullable().optional(),
   is_favorite: z.number().optional(), // 0 or 1
+  op_id: z.string().max(100).optional(),
+  hlc: z.string().optional(),
+  // Per-field stamps for metadata fields, e.g. { "is_favorite": "<hlc>" }
+  field_hlcs: z.record(z.string()).optional(),
 });
 
 const CalendarEventSchema = z.object({
@@ -128,6 +408,8 @@ const CalendarEventSchema = z.object({
   created_at: z.number(),
   updated_at: z.number(),
   deleted_at: z.number().nullable().optional(),
+  op_id: z.string().max(100).optional(),
+  hlc: z.string().optional(),
 });
 
 const DatabaseSchema = z.object({
@@ -138,6 +420,44 @@ const DatabaseSchema = z.object({
   created_at: z.number(),
   updated_at: z.number(),
   deleted_at: z.number().nullable().optional(),
+  op_id: z.string().max(100).optional(),
+  hlc: z.string().optional(),
+});
+
+// Granular database edits: one column, row, view or cell per change
+const DatabaseItemChangeSchema = z.object({
+  kind: z.enum(['column', 'row', 'view']),
+  database_uuid: z.string(),
+  id: z.string().min(1).max(100),
+  // Omitted data/position keep the stored value
+  data: z.record(z.any()).nullable().optional(),
+  position: z.number().nullable().optional(),
+  updated_at: z.number(),
+  deleted_at: z.number().nullable().optional(),
+  op_id: z.string().max(100).optional(),
+  hlc: z.string().optional(),
+});
+
+const DatabaseCellChangeSchema = z.object({
+  kind: z.literal('cell'),
+  database_uuid: z.string(),
+  row_id: z.string().min(1).max(100),
+  column_id: z.string().min(1).max(100),
+  value: z.any(),
+  updated_at: z.number(),
+  deleted_at: z.number().nullable().optional(),
+  op_id: z.string().max(100).optional(),
+  hlc: z.string().optional(),
+});
+
+const DatabaseChangeSchema = z.union([DatabaseItemChangeSchema, DatabaseCellChangeSchema]);
+
+// Folder rename/move; moves descendant folders and notes, tombstoning the old folder paths
+const FolderMoveSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  op_id: z.string().max(100).optional(),
+  hlc: z.string().optional(),
 });
 
 const PushSchema = z.object({
@@ -145,109 +465,295 @@ const PushSchema = z.object({
   folders: z.array(FolderSchema).optional(),
   calendar_events: z.array(CalendarEventSchema).optional(),
   databases: z.array(DatabaseSchema).optional(),
+  database_changes: z.array(DatabaseChangeSchema).optional(),
+  // Applied before folders and notes, which may already use the new paths
+  folder_moves: z.array(FolderMoveSchema).optional(),
+  // Merged per key (see /api/settings); null clears a key
+  settings: z.object({
+    values: SettingsSchema,
+    hlc: z.string().optional(),
+    field_hlcs: z.record(z.string()).optional(),
+  }).optional(),
   deviceId: z.string(),
   clientTimestamp: z.number().optional(),
+  // Only used for legacy entities without an hlc stamp
+  // Retries of the same batch replay the stored response instead of writing again
+  batchId: z.string().min(1).max(100).optional(),
 });
 
+// Result of a query that does not apply to this pull
+function noRows(): Pick<QueryResult, 'rows'> {
+  return { rows: [] };
+}
+
+const DEFAULT_PULL_PAGE_SIZE = parseInt(process.env.SYNC_PULL_PAGE_SIZE || '500');
+const MAX_PULL_PAGE_SIZE = parseInt(process.env.SYNC_PULL_MAX_PAGE_SIZE || '2000');
+
 const PullSchema = z.object({
-  lastSyncTimestamp: z.number(),
+  cursor: z.string().optional(),
+  limit: z.number().int().positive().optional(),
+  // Clients that sync databases granularly can skip the full snapshots
+  includeDatabaseSnapshots: z.boolean().optional(),
+  // Applies the device's selective sync settings (see /api/devices)
+  deviceId: z.string().optional(),
+  // Send changed note content as a delta against the version the cursor has seen
+  contentDeltas: z.boolean().optional(),
+  // Legacy clients that predate change cursors
+  lastSyncTimestamp: z.number().optional(),
 });
 
 // PULL
 router.post('/pull', async (req: AuthRequest, res: Response) => {
+  const client = await pool.connect();
   try {
-    const { lastSyncTimestamp } = PullSchema.parse(req.body);
+    const { cursor, limit, lastSyncTimestamp, includeDatabaseSnapshots = true, deviceId, contentDeltas = false } = PullSchema.parse(req.body);
     const userId = req.userId!;
 
-    // Get changed notes
-    // Return: modified non-deleted notes OR recently deleted notes
-    // This prevents old deleted notes from being restored on fresh sync
-    // OPTIMIZATION: If lastSyncTimestamp is 0 (fresh sync), DO NOT send deleted notes
-    // The client has no notes, so it doesn't need to delete anything.
-    // Use >= instead of > to avoid race conditions where client/server timestamps are identical
-    const notesResult = await pool.query(
+    // Legacy timestamp mode is kept only for clients that have never received a
+    // cursor. It is not paginated, since those clients do not know about hasMore.
+    const legacy = cursor === undefined && lastSyncTimestamp !== undefined;
+    const since: SyncCursor = cursor !== undefined ? decodeCursor(cursor) : { seq: 0 };
+    const pageSize = Math.min(limit ?? DEFAULT_PULL_PAGE_SIZE, MAX_PULL_PAGE_SIZE);
+
+    // One snapshot for every table and the head sequence, so the returned
+    // cursor covers exactly the rows in this response
+    await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+
+    const headSeq = await currentChangeSeq(client, userId);
+    const scope = await loadSyncScope(client, userId, deviceId);
+
+    // Tombstones the cursor has not seen yet may have been compacted away
+    if (!legacy && since.seq > 0) {
+      const compacted = await client.query('SELECT compacted_seq FROM users WHERE id = $1', [userId]);
+      if (since.seq < Number(compacted.rows[0]?.compacted_seq ?? 0)) {
+        await client.query('ROLLBACK');
+        return res.status(410).json({ error: 'Sync cursor predates compacted deletions, full resync required', resync: true });
+      }
+    }
+
+    // A fresh device skips deleted notes/events/databases that existed before it
+    // started syncing: it has nothing to delete, and this prevents old tombstones
+    // from being replayed. bootstrapSeq carries that boundary across pages.
+    const bootstrapSeq = bootstrapSeqOf(since, headSeq);
+
+    let liveOrRecentlyDeleted: string;
+    let anyChange: string;
+    let params: unknown[];
+    let nextCursor: SyncCursor;
+    let hasMore = false;
+
+    if (legacy) {
+      // Use >= instead of > to avoid races on identical timestamps
+      liveOrRecentlyDeleted = `((updated_at >= $2 AND deleted_at IS NULL) OR (deleted_at >= $2 AND $2 > 0))`;
+      anyChange = `(updated_at >= $2 OR deleted_at >= $2)`;
+      params = [userId, lastSyncTimestamp];
+      nextCursor = { seq: headSeq };
+    } else {
+      liveOrRecentlyDeleted = LIVE_OR_RECENTLY_DELETED;
+      anyChange = ANY_CHANGE;
+
+      // change_seq is NOT unique per row: a folder move, a trash restore or a
+      // merged database snapshot stamps many rows with one sequence number. Pages
+      // are therefore cut on sequence boundaries, never by row count: the page
+      // ends at the pageSize-th pending sequence number and includes every row
+      // that shares it, so a multi-row change is never split across pages (and
+      // a page may hold more than pageSize rows). Fetch one extra to detect
+      // hasMore; when it shares the boundary, the next page may come back empty.
+      const pendingResult = await client.query(
+        `SELECT change_seq FROM (
+           ${pendingChangesQuery('$6::text')}
+         ) pending
+         ORDER BY change_seq
+         LIMIT $5`,
+        [userId, since.seq, headSeq, bootstrapSeq, pageSize + 1, deviceId ?? null]
+      );
+
+      hasMore = pendingResult.rows.length > pageSize;
+      const untilSeq = hasMore ? Number(pendingResult.rows[pageSize - 1].change_seq) : headSeq;
+
+      params = [userId, since.seq, untilSeq, bootstrapSeq];
+      nextCursor = { seq: Math.max(untilSeq, since.seq), bootstrapSeq };
+    }
+
+    const orderBy = legacy ? '' : 'ORDER BY change_seq';
+    // anyChange does not use bootstrapSeq, and Postgres rejects unused parameters
+    const changeParams = legacy ? params : params.slice(0, 3);
+
+    const notesResult = await client.query(
       `SELECT * FROM notes 
        WHERE user_id = $1 
-       AND (
-         (updated_at >= $2 AND deleted_at IS NULL)
-         OR (deleted_at >= $2 AND $2 > 0)
-       )`,
-      [userId, lastSyncTimestamp]
+       AND ${liveOrRecentlyDeleted}
+       ${orderBy}`,
+      params
     );
 
-    // Get changed folders
-    // Use >= instead of > to avoid race conditions
-    const foldersResult = await pool.query(
+    const foldersResult = await client.query(
       `SELECT * FROM folders 
        WHERE user_id = $1 
-       AND (updated_at >= $2 OR deleted_at >= $2)`,
-      [userId, lastSyncTimestamp]
+       AND ${anyChange}
+       ${orderBy}`,
+      changeParams
     );
 
-    // Convert BigInt to Number for JSON
-    const notes = notesResult.rows.map(row => ({
-      ...row,
-      created_at: Number(row.created_at),
-      updated_at: Number(row.updated_at),
-      deleted_at: row.deleted_at ? Number(row.deleted_at) : null,
-      // Ensure content is never undefined - use empty string if null
-      content: row.content !== null && row.content !== undefined ? row.content : '',
-      // Ensure path is never null - construct from name if missing
-      path: row.path || `${row.folder ? row.folder + '/' : ''}${row.name}.md`
-    }));
-
-    const folders = foldersResult.rows.map(row => ({
-      ...row,
-      created_at: Number(row.created_at),
-      updated_at: Number(row.updated_at),
-      deleted_at: row.deleted_at ? Number(row.deleted_at) : null,
-    }));
-
-    // Get changed calendar events
-    const calendarEventsResult = await pool.query(
+    const calendarEventsResult = await client.query(
       `SELECT * FROM calendar_events 
        WHERE user_id = $1 
-       AND (
-         (updated_at >= $2 AND deleted_at IS NULL)
-         OR (deleted_at >= $2 AND $2 > 0)
-       )`,
-      [userId, lastSyncTimestamp]
+       AND ${liveOrRecentlyDeleted}
+       ${orderBy}`,
+      params
     );
 
-    const calendar_events = calendarEventsResult.rows.map(row => ({
-      ...row,
-      created_at: Number(row.created_at),
-      updated_at: Number(row.updated_at),
-      deleted_at: row.deleted_at ? Number(row.deleted_at) : null,
-      start_time: Number(row.start_time),
-      end_time: Number(row.end_time),
-      recurrence_end: row.recurrence_end ? Number(row.recurrence_end) : null,
-    }));
-
-    // Get changed databases (Notion-style)
-    const databasesResult = await pool.query(
-      `SELECT uuid, name, icon, snapshot, created_at, updated_at, deleted_at
+    // Notion-style databases
+    const databasesResult = await client.query(
+      `SELECT uuid, name, icon, ${includeDatabaseSnapshots ? 'snapshot' : 'NULL AS snapshot'}, created_at, updated_at, deleted_at, change_seq, hlc
        FROM databases
        WHERE user_id = $1
-       AND (
-         (updated_at >= $2 AND deleted_at IS NULL)
-         OR (deleted_at >= $2 AND $2 > 0)
-       )`,
-      [userId, lastSyncTimestamp]
+       AND ${liveOrRecentlyDeleted}
+       ${orderBy}`,
+      params
+    );
+
+    const databaseItemsResult = await client.query(
+      `SELECT database_uuid, kind, item_id, position, data, updated_at, deleted_at, change_seq, hlc
+       FROM database_items
+       WHERE user_id = $1
+       AND ${liveOrRecentlyDeleted}
+       ${orderBy}`,
+      params
     );
 
-    const databases = databasesResult.rows.map(row => ({
-      uuid: row.uuid,
-      name: row.name,
-      icon: row.icon,
-      snapshot: row.snapshot,
+    // Folder moves are only tracked by change_seq; legacy clients see the rewritten rows
+    const folderMovesResult = legacy
+      ? noRows()
+      : await client.query(
+          `SELECT id, from_path, to_path, device_id, hlc, change_seq, created_at
+           FROM folder_moves
+           WHERE user_id = $1
+           AND ${anyChange}
+           ORDER BY change_seq`,
+          changeParams
+        );
+
+    const databaseCellsResult = await client.query(
+      `SELECT database_uuid, row_id, column_id, value, updated_at, deleted_at, change_seq, hlc
+       FROM database_cells
+       WHERE user_id = $1
+       AND ${liveOrRecentlyDeleted}
+       ${orderBy}`,
+      params
+    );
+
+    // Attachment feed: uploads, renames, moves to another note and deletions
+    const attachmentsResult = await client.query(
+      `SELECT id, note_uuid, file_name, file_hash, file_size, mime_type, created_at, updated_at, deleted_at, change_seq
+       FROM attachments
+       WHERE user_id = $1
+       AND ${liveOrRecentlyDeleted}
+       ${orderBy}`,
+      params
+    );
+
+    // Attachments removed from the table entirely (orphan cleanup) only leave a
+    // sync_log entry; like folder moves they are only tracked by change_seq
+    const attachmentPurgesResult = legacy
+      ? noRows()
+      : await client.query(
+          `SELECT entity_id, data_json, timestamp, change_seq
+           FROM sync_log
+           WHERE user_id = $1
+           AND ${anyChange}
+           AND change_seq > $4
+           AND ${ATTACHMENT_PURGES}
+           ORDER BY change_seq`,
+          params
+        );
+
+    // Settings are returned whole when any key, or the device's overrides,
+    // changed after the cursor (cursor mode only)
+    const settingsResult = legacy
+      ? noRows()
+      : await client.query(
+          `SELECT u.settings, u.settings_hlcs, u.settings_seq, d.settings_overrides, d.settings_overrides_seq
+           FROM users u
+           LEFT JOIN devices d ON d.user_id = u.id AND d.device_id = $4::text
+           WHERE u.id = $1
+           AND ((u.settings_seq > $2 AND u.settings_seq <= $3)
+             OR (d.settings_overrides_seq > $2 AND d.settings_overrides_seq <= $3))`,
+          [...changeParams, deviceId ?? null]
+        );
+
+    // Note paths decide whether an attachment is in the device's sync scope
+    const attachmentNotes = scope
+      ? await client.query(
+          'SELECT uuid, path, folder, name FROM notes WHERE user_id = $1 AND uuid = ANY($2)',
+          [userId, [...new Set(attachmentsResult.rows.map(row => row.note_uuid))]]
+        )
+      : noRows();
+
+    // Delta bases: the content each changed note had at the incoming cursor
+    const deltaBases = contentDeltas && !legacy && since.seq > 0
+      ? await findContentAtSeq(
+          client,
+          userId,
+          notesResult.rows.filter(row => row.deleted_at === null && row.content !== null).map(row => row.uuid),
+          since.seq
+        )
+      : new Map<string, { content: string | null; content_hash: string | null }>();
+
+    await client.query('COMMIT');
+
+    if (deviceId) {
+      await recordPull(client, userId, deviceId, nextCursor);
+    }
+
+    // Selective sync: rows outside the device's folders are not sent. Those
+    // changed since the device started syncing may have been moved out of scope,
+    // so their ids are listed in `removed` for the device to drop locally.
+    const removed = { notes: [] as string[], folders: [] as string[], attachments: [] as string[] };
+    const notesInScope = notesResult.rows.filter(row => {
+      const inScope = notePathInScope(scope, notePath(row));
+      if (!inScope && Number(row.change_seq) > bootstrapSeq) removed.notes.push(row.uuid);
+      return inScope;
+    });
+    const foldersInScope = foldersResult.rows.filter(row => {
+      const inScope = folderInScope(scope, row.path);
+      if (!inScope && Number(row.change_seq) > bootstrapSeq) removed.folders.push(row.path);
+      return inScope;
+    });
+    const attachmentNotePaths = new Map(attachmentNotes.rows.map(row => [row.uuid, notePath(row)]));
+    const attachmentsInScope = attachmentsResult.rows.filter(row => {
+      if (row.deleted_at !== null) return true;
+      const notePathForAttachment = attachmentNotePaths.get(row.note_uuid);
+      const inScope = (notePathForAttachment === undefined || notePathInScope(scope, notePathForAttachment))
+        && attachmentInScope(scope, Number(row.file_size));
+      if (!inScope && Number(row.change_seq) > bootstrapSeq) removed.attachments.push(row.id);
+      return inScope;
+    });
+
+    // Convert BigInt to Number for JSON
+    const notes = notesInScope.map(row => withContentDelta(deltaBases.get(row.uuid), noteToJson(row)));
+    const folders = foldersInScope.map(folderToJson);
+    const calendar_events = calendarEventsResult.rows.map(calendarEventToJson);
+    const databases = databasesResult.rows.map(databaseToJson);
+    const database_items = databaseItemsResult.rows.map(databaseItemToJson);
+    const database_cells = databaseCellsResult.rows.map(databaseCellToJson);
+    const attachments = [
+      ...attachmentsInScope.map(attachmentToJson),
+      ...attachmentPurgesResult.rows.map(attachmentPurgeToJson),
+    ];
+
+    const folder_moves = folderMovesResult.rows.map(row => ({
+      id: row.id,
+      from: row.from_path,
+      to: row.to_path,
+      device_id: row.device_id,
+      hlc: row.hlc,
+      change_seq: Number(row.change_seq),
       created_at: Number(row.created_at),
-      updated_at: Number(row.updated_at),
-      deleted_at: row.deleted_at ? Number(row.deleted_at) : null,
     }));
 
     // Log notes with missing content for debugging
-    const notesWithoutContent = notes.filter(n => !n.content && !n.deleted_at);
+    const notesWithoutContent = notes.filter(n => !('content_delta' in n) && !n.content && !n.deleted_at);
     if (notesWithoutContent.length > 0) {
       console.warn(`⚠️ Found ${notesWithoutContent.length} notes without content:`,
         notesWithoutContent.map(n => `${n.name} (${n.uuid})`));
@@ -256,14 +762,29 @@ router.post('/pull', async (req: AuthRequest, res: Response) => {
     res.json({
       notes,
       folders,
+      folder_moves,
       calendar_events,
       databases,
+      database_items,
+      database_cells,
+      attachments,
+      settings: settingsResult.rows.length > 0 ? settingsToJson(settingsResult.rows[0]) : null,
+      removed,
+      cursor: encodeCursor(nextCursor),
+      hasMore,
+      hlc: serverClock.now(),
       timestamp: Date.now(),
     });
 
   } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof InvalidCursorError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Pull error:', error);
     res.status(500).json({ error: (error as Error).message });
+  } finally {
+    client.release();
   }
 });
 
@@ -271,28 +792,111 @@ router.post('/pull', async (req: AuthRequest, res: Response) => {
 router.post('/push', async (req: AuthRequest, res: Response) => {
   const client = await pool.connect();
   try {
-    const { notes, folders, calendar_events, deviceId, clientTimestamp } = PushSchema.parse(req.body);
+    const { notes, folders, folder_moves, calendar_events, database_changes, settings, deviceId, clientTimestamp, batchId } = PushSchema.parse(req.body);
     const userId = req.userId!;
     
     await client.query('BEGIN');
 
+    if (batchId) {
+      const batch = await claimBatch(client, userId, batchId, deviceId);
+      if (!batch.claimed) {
+        await client.query('ROLLBACK');
+        if (!batch.response) {
+          return res.status(409).json({ error: 'Batch is already being processed' });
+        }
+        console.log(`🔁 Replaying push batch ${batchId} for device ${deviceId}`);
+        return res.json({ ...batch.response, replayed: true });
+      }
+      await pruneIdempotencyRecords(client, userId);
+    }
+
+    // Every change_seq after this one is allocated by this push
+    const baseSeq = await lockChangeSeq(client, userId);
+
     // Calculate time offset if client timestamp is provided
     // offset = serverTime - clientTime
     // adjustedTime = clientTime + offset
+    // Entities carrying an hlc are ordered by it and stored without adjustment.
     const serverTime = Date.now();
     const timeOffset = clientTimestamp ? serverTime - clientTimestamp : 0;
     
     // Track rejected notes and detected conflicts for client feedback
     const rejectedNotes: string[] = [];
-    const detectedConflicts: Array<{ uuid: string; name: string; reason: string; clientTimestamp: number; serverTimestamp: number }> = [];
+    const rejectionReasons = new Map<string, string>();
+    const hashMismatches: HashMismatch[] = [];
+    const deltaRejections: DeltaRejection[] = [];
+    const detectedConflicts: PushConflict[] = [];
+    const duplicateOperations: string[] = [];
+    const fieldMerges: FieldMergeReport[] = [];
+    // Written entities, listed in the WebSocket notification
+    const changes: SyncChange[] = [];
     
     if (clientTimestamp && Math.abs(timeOffset) > 60000) {
       console.log(`🕒 Clock skew detected: Client ${deviceId} is off by ${timeOffset}ms`);
     }
 
+    // Folder renames/moves
+    const folderMoves: Array<Record<string, unknown>> = [];
+    if (folder_moves) {
+      for (const move of folder_moves) {
+        if (!(await claimOperation(client, userId, move.op_id, batchId, 'folder_move', `${move.from} -> ${move.to}`))) {
+          duplicateOperations.push(move.op_id!);
+          continue;
+        }
+
+        try {
+          const moved = await moveFolder(client, userId, move.from, move.to, deviceId, stampHlc(move.hlc, serverTime, deviceId));
+          console.log(`📁 Moved folder "${moved.from}" to "${moved.to}" (${moved.folders} folders, ${moved.notes} notes)`);
+          folderMoves.push({ ...moved, status: 'applied' });
+          changes.push({ type: 'folder_move', id: moved.id, op: 'move', from: moved.from, to: moved.to });
+        } catch (error) {
+          if (!(error instanceof FolderMoveError)) {
+            throw error;
+          }
+          console.warn(`⛔ Folder move "${move.from}" -> "${move.to}" rejected: ${error.message}`);
+          folderMoves.push({ from: move.from, to: move.to, status: 'rejected', reason: error.reason, error: error.message });
+        }
+      }
+    }
+
     // Upsert Notes
     if (notes) {
       for (const note of notes) {
+        if (!(await claimOperation(client, userId, note.op_id, batchId, 'note', note.uuid))) {
+          duplicateOperations.push(note.op_id!);
+          continue;
+        }
+
+        if (note.content_delta) {
+          const resolved = await resolveContentDelta(client, userId, note);
+          if (!('content' in resolved)) {
+            console.warn(`⛔ Content delta for note "${note.name}" (UUID: ${note.uuid}) rejected: ${resolved.error}`);
+            deltaRejections.push(resolved);
+            rejectedNotes.push(note.uuid);
+            rejectionReasons.set(note.uuid, resolved.reason);
+            continue;
+          }
+          note.content = resolved.content;
+          // The delta's base is the version the edit started from
+          note.base_content_hash = note.base_content_hash ?? note.content_delta.base_hash;
+        }
+
+        // Never trust the client's content_hash: recompute it over canonical content
+        if (note.content !== null && note.content !== undefined) {
+          const verifiedHash = hashContent(note.content);
+          if (note.content_hash && note.content_hash !== verifiedHash) {
+            const action = CONTENT_HASH_MODE === 'reject' ? 'rejected' : 'corrected';
+            console.warn(`#️⃣ Content hash mismatch for note "${note.name}" (UUID: ${note.uuid}): client ${note.content_hash}, server ${verifiedHash} - ${action}`);
+            hashMismatches.push({ uuid: note.uuid, name: note.name, clientHash: note.content_hash, serverHash: verifiedHash, action });
+            if (action === 'rejected') {
+              rejectedNotes.push(note.uuid);
+              rejectionReasons.set(note.uuid, 'hash_mismatch');
+              continue;
+            }
+          }
+          note.content_hash = verifiedHash;
+        }
+
         // Normalize path and folder to forward slashes for cross-platform consistency
         const normalizedPath = note.path ? note.path.replace(/\\/g, '/') : note.path;
         const normalizedFolder = note.folder ? note.folder.replace(/\\/g, '/') : note.folder;
@@ -303,7 +907,9 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
         let safeCreatedAt = normalizeTimestamp(note.created_at, safeUpdatedAt);
         let safeDeletedAt = normalizeNullableTimestamp(note.deleted_at);
         
-        if (clientTimestamp) {
+        if (note.hlc) {
+          // HLC clients: keep their timestamps as-is, ordering comes from the hlc
+        } else if (clientTimestamp) {
           safeUpdatedAt = normalizeTimestamp(safeUpdatedAt + timeOffset, serverTime);
           safeCreatedAt = normalizeTimestamp(safeCreatedAt + timeOffset, safeUpdatedAt);
           if (safeDeletedAt !== null) {
@@ -321,19 +927,28 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
           safeCreatedAt = safeUpdatedAt;
         }
 
+        let noteHlc = stampHlc(note.hlc, safeUpdatedAt, deviceId);
+        const noteFieldStamps = stampFields(NOTE_METADATA_FIELDS, note.field_hlcs, noteHlc);
+
         // 🔍 DEBUG: Check if note exists and log potential conflicts
         const existingNote = await client.query(
-          `SELECT uuid, name, path, folder, content, content_hash, order_index, icon, icon_color, created_at, updated_at, deleted_at, is_favorite, last_modified_by_device
+          `SELECT uuid, name, path, folder, content, content_hash, order_index, icon, icon_color, created_at, updated_at, deleted_at, is_favorite, last_modified_by_device, hlc, field_hlcs
            FROM notes
            WHERE user_id = $1 AND uuid = $2`,
           [userId, note.uuid]
         );
 
+        // Content actually written; replaced by the merge result on auto-merge
+        let contentToWrite = note.content;
+        let hashToWrite = note.content_hash;
+        // Set when a merge or a conflict copy decided the content, whatever the hlc order
+        let contentMergeDecided = false;
+
         if (existingNote.rows.length > 0) {
           const existingRow = existingNote.rows[0];
           const serverUpdatedAt = toFiniteTimestamp(existingRow.updated_at) ?? 0;
           const serverDeletedAt = toFiniteTimestamp(existingRow.deleted_at);
-          const serverHash = existingRow.content_hash;
+          const serverHash = storedContentHash(existingRow);
 
           // P0: Delete-wins protection
           // If server already has tombstone and client tries to resurrect with a non-deleted payload,
@@ -343,83 +958,149 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
             console.warn(`   Server deleted_at: ${serverDeletedAt} (${toIsoOrInvalid(serverDeletedAt)})`);
             console.warn(`   Client updated_at: ${safeUpdatedAt} (${toIsoOrInvalid(safeUpdatedAt)})`);
             rejectedNotes.push(note.uuid);
+            rejectionReasons.set(note.uuid, 'stale_resurrection');
             continue;
           }
 
-          // If both sides are tombstones, keep the newest delete timestamp.
-          if (serverDeletedAt !== null && safeDeletedAt !== null && safeDeletedAt < serverDeletedAt) {
+          // If both sides are tombstones, keep the newest delete.
+          const olderTombstone = existingRow.hlc
+            ? compareHlc(noteHlc, existingRow.hlc) < 0
+            : safeDeletedAt !== null && serverDeletedAt !== null && safeDeletedAt < serverDeletedAt;
+          if (serverDeletedAt !== null && safeDeletedAt !== null && olderTombstone) {
             console.warn(`⏭️ Ignoring older tombstone for note "${note.name}" (UUID: ${note.uuid})`);
             continue;
           }
           
-          // Conflict detection: only create conflict copy when there is GENUINE concurrent editing
-          // i.e., a DIFFERENT device modified the server version AND content hashes differ
           const serverLastDevice = existingRow.last_modified_by_device;
           const isDifferentDevice = serverLastDevice && serverLastDevice !== deviceId;
           const contentDiverged = note.content_hash !== serverHash && serverHash !== null;
           const bothAlive = serverDeletedAt === null && safeDeletedAt === null;
-          
-          if (bothAlive && contentDiverged && isDifferentDevice) {
-            // True concurrent edit: different device changed the note and content differs
-            // Only create conflict if the server version was modified recently (within 60s)
+          const baseHash = note.base_content_hash ?? null;
+
+          if (bothAlive && contentDiverged && baseHash !== null) {
+            // Client told us which version it edited: the server changed since that
+            // base only if the hashes differ. Then try a line-based three-way merge
+            // and fall back to a conflict copy when both sides touched the same lines.
+            // A base hash computed before canonical hashing still names the current version
+            if (baseHash !== serverHash && baseHash !== existingRow.content_hash) {
+              const baseContent = await findBaseContent(client, userId, note.uuid, baseHash);
+              const merged = baseContent !== null
+                ? merge3(splitLines(baseContent), splitLines(existingRow.content ?? ''), splitLines(note.content ?? ''))
+                : null;
+
+              if (merged?.clean) {
+                contentToWrite = merged.lines.join('\n');
+                hashToWrite = hashContent(contentToWrite);
+                // The merge is a new server-side event after both versions
+                noteHlc = serverClock.now();
+                console.log(`🔀 Auto-merged concurrent edit for note "${note.name}" (UUID: ${note.uuid})`);
+                contentMergeDecided = true;
+
+                detectedConflicts.push({
+                  uuid: note.uuid,
+                  name: note.name,
+                  reason: 'concurrent_edit',
+                  resolution: 'auto_merged',
+                  mergedContentHash: hashToWrite,
+                  clientTimestamp: safeUpdatedAt,
+                  serverTimestamp: serverUpdatedAt
+                });
+              } else {
+                console.warn(`⚠️ Merge conflict for note "${note.name}" (UUID: ${note.uuid})` +
+                  (baseContent === null ? ` - base ${baseHash} not in history` : ` - ${merged!.conflicts} conflicting region(s)`));
+
+                const reason = baseContent === null ? 'unknown_base' : 'concurrent_edit';
+                const copy = await preserveConflictCopy(client, userId, existingRow, note, normalizedPath, reason, deviceId, safeUpdatedAt);
+                if (copy.conflictUuid) {
+                  changes.push({ type: 'note', id: copy.conflictUuid, op: 'upsert' });
+                }
+                contentMergeDecided = true;
+                detectedConflicts.push({
+                  uuid: note.uuid,
+                  name: note.name,
+                  reason,
+                  resolution: 'conflicted',
+                  ...copy,
+                  clientTimestamp: safeUpdatedAt,
+                  serverTimestamp: serverUpdatedAt
+                });
+              }
+            }
+          } else if (bothAlive && contentDiverged && isDifferentDevice) {
+            // Legacy clients without base_content_hash:
+            // only create conflict copy when there is GENUINE concurrent editing,
+            // i.e., a DIFFERENT device modified the server version recently (within 60s)
             // to avoid creating conflicts from stale data
             const CONCURRENT_WINDOW_MS = 60000;
-            const serverModifiedRecently = (serverTime - serverUpdatedAt) < CONCURRENT_WINDOW_MS;
+            const serverChangedAt = parseHlc(existingRow.hlc)?.wall ?? serverUpdatedAt;
+            const serverModifiedRecently = (serverTime - serverChangedAt) < CONCURRENT_WINDOW_MS;
             
             if (serverModifiedRecently) {
               console.warn(`⚠️ TRUE CONFLICT for note "${note.name}" (UUID: ${note.uuid})`);
               console.warn(`   Server device: ${serverLastDevice}, Push device: ${deviceId}`);
               console.warn(`   Content hash - Client: ${note.content_hash}, Server: ${serverHash}`);
 
+              const copy = await preserveConflictCopy(client, userId, existingRow, note, normalizedPath, 'concurrent_edit', deviceId, safeUpdatedAt);
+              if (copy.conflictUuid) {
+                changes.push({ type: 'note', id: copy.conflictUuid, op: 'upsert' });
+              }
+              contentMergeDecided = true;
               detectedConflicts.push({
                 uuid: note.uuid,
                 name: note.name,
                 reason: 'concurrent_edit',
+                resolution: 'conflicted',
+                ...copy,
                 clientTimestamp: safeUpdatedAt,
                 serverTimestamp: serverUpdatedAt
               });
-
-              const conflictTimestamp = Math.max(serverUpdatedAt, safeUpdatedAt) + 1;
-              const safeDeviceId = String(serverLastDevice || 'unknown')
-                .toLowerCase()
-                .replace(/[^a-z0-9_-]/g, '-')
-                .slice(0, 24);
-              const conflictPath = `${existingRow.path || normalizedPath}.conflict-${safeDeviceId}-${conflictTimestamp}`;
-
-              await client.query(
-                `INSERT INTO notes (
-                   user_id, uuid, name, path, folder, content, content_hash, order_index,
-                   icon, icon_color, created_at, updated_at, deleted_at, is_favorite, last_modified_by_device
-                 )
-                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NULL, $13, $14)
-                 ON CONFLICT (user_id, path) DO NOTHING`,
-                [
-                  userId,
-                  randomUUID(),
-                  `${existingRow.name || note.name} [conflict]`,
-                  conflictPath,
-                  existingRow.folder,
-                  existingRow.content,
-                  existingRow.content_hash,
-                  existingRow.order_index,
-                  existingRow.icon,
-                  existingRow.icon_color,
-                  toFiniteTimestamp(existingRow.created_at) ?? conflictTimestamp,
-                  conflictTimestamp,
-                  existingRow.is_favorite ?? 0,
-                  serverLastDevice,
-                ]
-              );
-
-              console.warn(`🛡️ Preserved server version as conflict copy at path: ${conflictPath}`);
             } else {
-              console.log(`ℹ️ Content differs but server version is stale (${serverTime - serverUpdatedAt}ms old), accepting push without conflict copy`);
+              console.log(`ℹ️ Content differs but server version is stale (${serverTime - serverChangedAt}ms old), accepting push without conflict copy`);
             }
           } else if (contentDiverged && bothAlive && !isDifferentDevice) {
             console.log(`ℹ️ Content differs but same device (${deviceId}), accepting push without conflict copy`);
           }
         }
 
+        // Metadata merges field by field, independently of content
+        const incomingMetadata = {
+          name: note.name,
+          path: normalizedPath,
+          folder: normalizedFolder,
+          order_index: note.order_index,
+          icon: note.icon,
+          icon_color: note.icon_color,
+          is_favorite: note.is_favorite,
+        };
+        let metadata: Record<string, any> = { ...incomingMetadata, is_favorite: note.is_favorite ?? 0 };
+        let noteFieldHlcs: FieldHlcs = noteFieldStamps;
+        let fieldsAccepted = false;
+
+        if (existingNote.rows.length > 0) {
+          const merge = mergeFields(NOTE_METADATA_FIELDS, existingNote.rows[0], existingNote.rows[0].field_hlcs, incomingMetadata, noteFieldStamps, unstampedFields(NOTE_METADATA_FIELDS, note.field_hlcs));
+          metadata = merge.values;
+          noteFieldHlcs = merge.fieldHlcs;
+          fieldsAccepted = merge.accepted.length > 0;
+          if (merge.accepted.length > 0 || merge.rejected.length > 0) {
+            fieldMerges.push({ type: 'note', id: note.uuid, accepted: merge.accepted, rejected: merge.rejected });
+          }
+          if (merge.rejected.length > 0) {
+            console.log(`🧩 Kept newer server values of ${merge.rejected.join(', ')} for note "${note.name}" (UUID: ${note.uuid})`);
+          }
+        }
+
+        // An older hlc does not overwrite the note: its content and deletion lose,
+        // and only fields with newer stamps are written. A merge or conflict copy
+        // above overrides this.
+        const storedNote = existingNote.rows[0];
+        const newerThanStored = !storedNote || !storedNote.hlc || compareHlc(noteHlc, storedNote.hlc) > 0;
+        if (!newerThanStored && !contentMergeDecided) {
+          contentToWrite = storedNote.content;
+          hashToWrite = storedContentHash(storedNote);
+          safeDeletedAt = toFiniteTimestamp(storedNote.deleted_at);
+        }
+        const mergeDecidedWrite = contentMergeDecided || fieldsAccepted;
+
         // Handle path collision with different UUID
         // The (user_id, path) UNIQUE constraint applies even to soft-deleted rows, so
         // both branches MUST also free the path or the subsequent INSERT will violate
@@ -427,36 +1108,44 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
         // is unique (epoch-based suffixes can collide for same-second concurrent writes).
         const pathCollision = await client.query(
           `SELECT uuid, content_hash FROM notes WHERE user_id = $1 AND path = $2 AND uuid != $3`,
-          [userId, normalizedPath, note.uuid]
+          [userId, metadata.path, note.uuid]
         );
         if (pathCollision.rows.length > 0) {
           const collision = pathCollision.rows[0];
-          if (collision.content_hash && collision.content_hash === note.content_hash) {
+          if (collision.content_hash && collision.content_hash === hashToWrite) {
             // Same content, different UUID — soft-delete AND free the path
             await client.query(
               `UPDATE notes
                  SET deleted_at = $1,
-                     path = path || '.dup-' || $3::text
+                     path = path || '.dup-' || $3::text,
+                     change_seq = $4,
+                     hlc = $5,
+                     field_hlcs = field_hlcs || jsonb_build_object('path', $5::text)
                WHERE user_id = $2 AND uuid = $3`,
-              [serverTime, userId, collision.uuid]
+              [serverTime, userId, collision.uuid, await nextChangeSeq(client, userId), serverClock.now()]
             );
-            console.log(`🧹 Soft-deleted duplicate note with same content at path: ${normalizedPath} (UUID: ${collision.uuid})`);
+            console.log(`🧹 Soft-deleted duplicate note with same content at path: ${metadata.path} (UUID: ${collision.uuid})`);
+            changes.push({ type: 'note', id: collision.uuid, op: 'delete' });
           } else {
             // Rename the colliding row so its path is freed; uuid suffix guarantees uniqueness
             await client.query(
               `UPDATE notes
-                 SET path = path || '.conflict-' || uuid::text
+                 SET path = path || '.conflict-' || uuid::text,
+                     change_seq = $3,
+                     hlc = $4,
+                     field_hlcs = field_hlcs || jsonb_build_object('path', $4::text)
                WHERE user_id = $1 AND uuid = $2`,
-              [userId, collision.uuid]
+              [userId, collision.uuid, await nextChangeSeq(client, userId), serverClock.now()]
             );
+            changes.push({ type: 'note', id: collision.uuid, op: 'upsert' });
           }
         }
 
         // 🛠️ FIX: Use content_hash for conflict detection instead of just timestamp
         // This prevents losing updates when timestamps are skewed
-        await client.query(
-          `INSERT INTO notes (user_id, uuid, name, path, folder, content, content_hash, order_index, icon, icon_color, created_at, updated_at, deleted_at, is_favorite, last_modified_by_device)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        const upsertResult = await client.query(
+          `INSERT INTO notes (user_id, uuid, name, path, folder, content, content_hash, order_index, icon, icon_color, created_at, updated_at, deleted_at, is_favorite, last_modified_by_device, change_seq, hlc, field_hlcs, deleted_by_device)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18::jsonb, $19)
            ON CONFLICT (user_id, uuid) DO UPDATE SET
              name = EXCLUDED.name,
              path = EXCLUDED.path,
@@ -475,36 +1164,59 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
                  GREATEST(EXCLUDED.updated_at, notes.updated_at)
              END,
              deleted_at = EXCLUDED.deleted_at,
+             deleted_by_device = CASE
+               WHEN EXCLUDED.deleted_at IS NULL THEN NULL
+               WHEN notes.deleted_at IS NULL THEN EXCLUDED.deleted_by_device
+               ELSE notes.deleted_by_device
+             END,
+             purged_at = CASE WHEN EXCLUDED.deleted_at IS NULL THEN NULL ELSE notes.purged_at END,
              is_favorite = EXCLUDED.is_favorite,
-             last_modified_by_device = EXCLUDED.last_modified_by_device
+             last_modified_by_device = EXCLUDED.last_modified_by_device,
+             change_seq = EXCLUDED.change_seq,
+             hlc = GREATEST(EXCLUDED.hlc, notes.hlc),
+             field_hlcs = EXCLUDED.field_hlcs
            WHERE 
              -- P0 delete-wins: never resurrect a tombstoned note with a non-deleted payload
              NOT (notes.deleted_at IS NOT NULL AND EXCLUDED.deleted_at IS NULL)
              AND (
-               -- Always update if content/metadata changed, regardless of timestamp
-               EXCLUDED.content_hash IS DISTINCT FROM notes.content_hash
-               OR EXCLUDED.deleted_at IS DISTINCT FROM notes.deleted_at
-               OR EXCLUDED.name != notes.name
-               OR EXCLUDED.path != notes.path
-               OR EXCLUDED.folder IS DISTINCT FROM notes.folder
-               OR EXCLUDED.is_favorite IS DISTINCT FROM notes.is_favorite
-               -- Or if timestamp is genuinely newer
-               OR EXCLUDED.updated_at > notes.updated_at
-             )`,
-          [userId, note.uuid, note.name, normalizedPath, normalizedFolder, note.content, note.content_hash, note.order_index, note.icon, note.icon_color, safeCreatedAt, safeUpdatedAt, safeDeletedAt, note.is_favorite ?? 0, deviceId]
+               -- Only a genuinely newer change (hybrid logical clock) overwrites the note
+               notes.hlc IS NULL
+               OR EXCLUDED.hlc > notes.hlc
+               -- unless the server merged it (content merge, conflict copy or newer field stamps)
+               OR $20::boolean
+             )
+           RETURNING uuid, change_seq`,
+          [userId, note.uuid, metadata.name, metadata.path, metadata.folder, contentToWrite, hashToWrite, metadata.order_index, metadata.icon, metadata.icon_color, safeCreatedAt, safeUpdatedAt, safeDeletedAt, metadata.is_favorite, deviceId, await nextChangeSeq(client, userId), noteHlc, JSON.stringify(noteFieldHlcs), safeDeletedAt !== null ? deviceId : null, mergeDecidedWrite]
         );
+
+        if (upsertResult.rowCount) {
+          changes.push({ type: 'note', id: note.uuid, op: safeDeletedAt !== null ? 'delete' : 'upsert' });
+        }
+
+        // Keep the replaced content in revision history
+        const previousRow = existingNote.rows[0];
+        if (upsertResult.rowCount && previousRow && storedContentHash(previousRow) !== hashToWrite) {
+          await recordRevision(client, userId, note.uuid, previousRow, Number(upsertResult.rows[0].change_seq));
+        }
       }
     }
 
     // Upsert Folders
     if (folders) {
       for (const folder of folders) {
+        if (!(await claimOperation(client, userId, folder.op_id, batchId, 'folder', folder.path))) {
+          duplicateOperations.push(folder.op_id!);
+          continue;
+        }
+
         // Apply same clock-skew correction as notes
         let safeFolderUpdatedAt = normalizeTimestamp(folder.updated_at, serverTime);
         let safeFolderCreatedAt = normalizeTimestamp(folder.created_at, safeFolderUpdatedAt);
         let safeFolderDeletedAt = normalizeNullableTimestamp(folder.deleted_at);
 
-        if (clientTimestamp) {
+        if (folder.hlc) {
+          // HLC clients: keep their timestamps as-is, ordering comes from the hlc
+        } else if (clientTimestamp) {
           safeFolderUpdatedAt = normalizeTimestamp(safeFolderUpdatedAt + timeOffset, serverTime);
           safeFolderCreatedAt = normalizeTimestamp(safeFolderCreatedAt + timeOffset, safeFolderUpdatedAt);
           if (safeFolderDeletedAt !== null) {
@@ -521,9 +1233,43 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
           safeFolderCreatedAt = safeFolderUpdatedAt;
         }
 
-        await client.query(
-          `INSERT INTO folders (user_id, path, icon, color, icon_color, order_index, created_at, updated_at, deleted_at, is_locked, password_hash, is_favorite)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        const folderHlc = stampHlc(folder.hlc, safeFolderUpdatedAt, deviceId);
+        const folderFieldStamps = stampFields(FOLDER_METADATA_FIELDS, folder.field_hlcs, folderHlc);
+        const incomingFolderMetadata = {
+          icon: folder.icon,
+          color: folder.color,
+          icon_color: folder.icon_color,
+          order_index: folder.order_index,
+          is_locked: folder.is_locked,
+          password_hash: folder.password_hash === undefined ? undefined : folder.password_hash || null,
+          is_favorite: folder.is_favorite,
+        };
+        let folderMetadata: Record<string, any> = {
+          ...incomingFolderMetadata,
+          is_locked: folder.is_locked || false,
+          password_hash: folder.password_hash || null,
+          is_favorite: folder.is_favorite ?? 0,
+        };
+        let folderFieldHlcs: FieldHlcs = folderFieldStamps;
+
+        const existingFolder = await client.query(
+          `SELECT icon, color, icon_color, order_index, is_locked, password_hash, is_favorite, field_hlcs
+           FROM folders
+           WHERE user_id = $1 AND path = $2`,
+          [userId, folder.path]
+        );
+        if (existingFolder.rows.length > 0) {
+          const merge = mergeFields(FOLDER_METADATA_FIELDS, existingFolder.rows[0], existingFolder.rows[0].field_hlcs, incomingFolderMetadata, folderFieldStamps, unstampedFields(FOLDER_METADATA_FIELDS, folder.field_hlcs));
+          folderMetadata = merge.values;
+          folderFieldHlcs = merge.fieldHlcs;
+          if (merge.accepted.length > 0 || merge.rejected.length > 0) {
+            fieldMerges.push({ type: 'folder', id: folder.path, accepted: merge.accepted, rejected: merge.rejected });
+          }
+        }
+
+        const folderResult = await client.query(
+          `INSERT INTO folders (user_id, path, icon, color, icon_color, order_index, created_at, updated_at, deleted_at, is_locked, password_hash, is_favorite, change_seq, hlc, field_hlcs, deleted_by_device)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15::jsonb, $16)
            ON CONFLICT (user_id, path) DO UPDATE SET
              icon = EXCLUDED.icon,
              color = EXCLUDED.color,
@@ -534,9 +1280,18 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
                ELSE folders.updated_at
              END,
              deleted_at = EXCLUDED.deleted_at,
+             deleted_by_device = CASE
+               WHEN EXCLUDED.deleted_at IS NULL THEN NULL
+               WHEN folders.deleted_at IS NULL THEN EXCLUDED.deleted_by_device
+               ELSE folders.deleted_by_device
+             END,
+             purged_at = CASE WHEN EXCLUDED.deleted_at IS NULL THEN NULL ELSE folders.purged_at END,
              is_locked = EXCLUDED.is_locked,
              password_hash = EXCLUDED.password_hash,
-             is_favorite = EXCLUDED.is_favorite
+             is_favorite = EXCLUDED.is_favorite,
+             change_seq = EXCLUDED.change_seq,
+             hlc = GREATEST(EXCLUDED.hlc, folders.hlc),
+             field_hlcs = EXCLUDED.field_hlcs
            WHERE
              EXCLUDED.icon IS DISTINCT FROM folders.icon
              OR EXCLUDED.color IS DISTINCT FROM folders.color
@@ -544,10 +1299,15 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
              OR EXCLUDED.order_index IS DISTINCT FROM folders.order_index
              OR EXCLUDED.deleted_at IS DISTINCT FROM folders.deleted_at
              OR EXCLUDED.is_locked IS DISTINCT FROM folders.is_locked
+             OR EXCLUDED.password_hash IS DISTINCT FROM folders.password_hash
              OR EXCLUDED.is_favorite IS DISTINCT FROM folders.is_favorite
-             OR EXCLUDED.updated_at > folders.updated_at`,
-          [userId, folder.path, folder.icon, folder.color, folder.icon_color, folder.order_index, safeFolderCreatedAt, safeFolderUpdatedAt, safeFolderDeletedAt, folder.is_locked || false, folder.password_hash || null, folder.is_favorite ?? 0]
+             OR folders.hlc IS NULL
+             OR EXCLUDED.hlc > folders.hlc`,
+          [userId, folder.path, folderMetadata.icon, folderMetadata.color, folderMetadata.icon_color, folderMetadata.order_index, safeFolderCreatedAt, safeFolderUpdatedAt, safeFolderDeletedAt, folderMetadata.is_locked, folderMetadata.password_hash, folderMetadata.is_favorite, await nextChangeSeq(client, userId), folderHlc, JSON.stringify(folderFieldHlcs), safeFolderDeletedAt !== null ? deviceId : null]
         );
+        if (folderResult.rowCount) {
+          changes.push({ type: 'folder', id: folder.path, op: safeFolderDeletedAt !== null ? 'delete' : 'upsert' });
+        }
       }
     }
 
@@ -567,25 +1327,30 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
           console.error(`   created_at: ${event.created_at}, updated_at: ${event.updated_at}`);
           continue; // Skip this event
         }
+
+        if (!(await claimOperation(client, userId, event.op_id, batchId, 'calendar_event', event.uuid))) {
+          duplicateOperations.push(event.op_id!);
+          continue;
+        }
         
         // Adjust timestamps if client timestamp is provided
         let safeUpdatedAt = event.updated_at;
         let safeCreatedAt = event.created_at;
         let safeDeletedAt = event.deleted_at;
         
-        if (clientTimestamp) {
+        if (clientTimestamp && !event.hlc) {
           safeUpdatedAt = safeUpdatedAt + timeOffset;
           safeCreatedAt = safeCreatedAt + timeOffset;
           if (safeDeletedAt) safeDeletedAt = safeDeletedAt + timeOffset;
         }
 
-        await client.query(
+        const eventResult = await client.query(
           `INSERT INTO calendar_events (
              user_id, uuid, note_uuid, title, description, start_time, end_time, 
              all_day, location, color, reminder_minutes, recurrence_rule, recurrence_end, 
-             status, created_at, updated_at, deleted_at
+             status, created_at, updated_at, deleted_at, change_seq, hlc, deleted_by_device
            )
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
            ON CONFLICT (user_id, uuid) DO UPDATE SET
              note_uuid = EXCLUDED.note_uuid,
              title = EXCLUDED.title,
@@ -607,14 +1372,18 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
                THEN GREATEST(EXCLUDED.updated_at, calendar_events.updated_at + 1)
                ELSE GREATEST(EXCLUDED.updated_at, calendar_events.updated_at)
              END,
-             deleted_at = EXCLUDED.deleted_at
-           WHERE
-             EXCLUDED.title != calendar_events.title
-             OR EXCLUDED.description IS DISTINCT FROM calendar_events.description
-             OR EXCLUDED.start_time != calendar_events.start_time
-             OR EXCLUDED.end_time != calendar_events.end_time
-             OR EXCLUDED.deleted_at IS DISTINCT FROM calendar_events.deleted_at
-             OR EXCLUDED.updated_at > calendar_events.updated_at`,
+             deleted_at = EXCLUDED.deleted_at,
+             deleted_by_device = CASE
+               WHEN EXCLUDED.deleted_at IS NULL THEN NULL
+               WHEN calendar_events.deleted_at IS NULL THEN EXCLUDED.deleted_by_device
+               ELSE calendar_events.deleted_by_device
+             END,
+             purged_at = CASE WHEN EXCLUDED.deleted_at IS NULL THEN NULL ELSE calendar_events.purged_at END,
+             change_seq = EXCLUDED.change_seq,
+             hlc = GREATEST(EXCLUDED.hlc, calendar_events.hlc)
+           -- Only a genuinely newer change (hybrid logical clock) overwrites the event
+           WHERE calendar_events.hlc IS NULL
+             OR EXCLUDED.hlc > calendar_events.hlc`,
           [
             userId, 
             event.uuid, 
@@ -632,9 +1401,15 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
             event.status || 1, 
             safeCreatedAt, 
             safeUpdatedAt, 
-            safeDeletedAt || null
+            safeDeletedAt || null,
+            await nextChangeSeq(client, userId),
+            stampHlc(event.hlc, safeUpdatedAt, deviceId),
+            safeDeletedAt ? deviceId : null,
           ]
         );
+        if (eventResult.rowCount) {
+          changes.push({ type: 'calendar_event', id: event.uuid, op: safeDeletedAt ? 'delete' : 'upsert' });
+        }
       }
     }
 
@@ -647,33 +1422,58 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
       created_at: number;
       updated_at: number;
       deleted_at?: number | null;
+      op_id?: string;
+      hlc?: string;
     }>;
     if (Array.isArray(databases) && databases.length > 0) {
+      // Snapshots only delete items the device has pulled (see applySnapshot)
+      const pulled = await client.query(
+        'SELECT last_pull_seq FROM devices WHERE user_id = $1 AND device_id = $2',
+        [userId, deviceId]
+      );
+      const seenSeq = pulled.rows[0]?.last_pull_seq != null ? Number(pulled.rows[0].last_pull_seq) : null;
+
       for (const dbItem of databases) {
         if (!dbItem?.uuid || typeof dbItem.uuid !== 'string') {
           console.warn('[push:databases] skipping entry without uuid');
           continue;
         }
+        const dbOpId = typeof dbItem.op_id === 'string' ? dbItem.op_id : undefined;
+        if (!(await claimOperation(client, userId, dbOpId, batchId, 'database', dbItem.uuid))) {
+          duplicateOperations.push(dbOpId!);
+          continue;
+        }
         let safeCreatedAt = normalizeTimestamp(dbItem.created_at, Date.now());
         let safeUpdatedAt = normalizeTimestamp(dbItem.updated_at, Date.now());
         let safeDeletedAt = normalizeNullableTimestamp(dbItem.deleted_at);
-        if (clientTimestamp) {
+        const dbClientHlc = typeof dbItem.hlc === 'string' ? dbItem.hlc : undefined;
+        if (clientTimestamp && !dbClientHlc) {
           safeCreatedAt += timeOffset;
           safeUpdatedAt += timeOffset;
           if (safeDeletedAt != null) safeDeletedAt += timeOffset;
         }
-        await client.query(
+        const dbHlc = stampHlc(dbClientHlc, safeUpdatedAt, deviceId);
+        const databaseResult = await client.query(
           `INSERT INTO databases (
-             user_id, uuid, name, icon, snapshot, created_at, updated_at, deleted_at
+             user_id, uuid, name, icon, snapshot, created_at, updated_at, deleted_at, change_seq, hlc, deleted_by_device
            )
-           VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7, $8)
+           VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7, $8, $9, $10, $11)
            ON CONFLICT (user_id, uuid) DO UPDATE SET
              name = EXCLUDED.name,
              icon = EXCLUDED.icon,
              snapshot = EXCLUDED.snapshot,
              updated_at = GREATEST(EXCLUDED.updated_at, databases.updated_at),
-             deleted_at = EXCLUDED.deleted_at
-           WHERE EXCLUDED.updated_at > databases.updated_at
+             deleted_at = EXCLUDED.deleted_at,
+             deleted_by_device = CASE
+               WHEN EXCLUDED.deleted_at IS NULL THEN NULL
+               WHEN databases.deleted_at IS NULL THEN EXCLUDED.deleted_by_device
+               ELSE databases.deleted_by_device
+             END,
+             purged_at = CASE WHEN EXCLUDED.deleted_at IS NULL THEN NULL ELSE databases.purged_at END,
+             change_seq = EXCLUDED.change_seq,
+             hlc = GREATEST(EXCLUDED.hlc, databases.hlc)
+           WHERE databases.hlc IS NULL
+              OR EXCLUDED.hlc > databases.hlc
               OR EXCLUDED.deleted_at IS DISTINCT FROM databases.deleted_at`,
           [
             userId,
@@ -684,24 +1484,154 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
             safeCreatedAt,
             safeUpdatedAt,
             safeDeletedAt,
+            await nextChangeSeq(client, userId),
+            dbHlc,
+            safeDeletedAt !== null ? deviceId : null,
           ]
         );
+
+        // Merge the snapshot item by item, so rows and cells changed on other
+        // devices after this snapshot was taken survive, then rebuild it.
+        // The notification lists the database, not each of its items.
+        let snapshotMerged = false;
+        if (safeDeletedAt === null && isGranularSnapshot(dbItem.snapshot)) {
+          const seq = await nextChangeSeq(client, userId);
+          await applySnapshot(client, userId, dbItem.uuid, dbItem.snapshot, safeUpdatedAt, dbHlc, seq, seenSeq);
+          snapshotMerged = await rebuildSnapshot(client, userId, dbItem.uuid, seq);
+        }
+        if (databaseResult.rowCount || snapshotMerged) {
+          changes.push({ type: 'database', id: dbItem.uuid, op: safeDeletedAt !== null ? 'delete' : 'upsert' });
+        }
       }
     }
 
-    await client.query('COMMIT');
+    // Granular database changes (columns, rows, views and cells)
+    const databaseChanges = { applied: 0, superseded: 0, rejected: [] as Array<{ database_uuid: string; kind: string; id: string }> };
+    if (database_changes) {
+      const knownDatabases = new Map<string, boolean>();
+      const touchedDatabases = new Set<string>();
+
+      for (const change of database_changes) {
+        const changeId = change.kind === 'cell' ? `${change.row_id}/${change.column_id}` : change.id;
+
+        if (!knownDatabases.has(change.database_uuid)) {
+          const dbResult = await client.query(
+            'SELECT 1 FROM databases WHERE user_id = $1 AND uuid = $2 AND deleted_at IS NULL',
+            [userId, change.database_uuid]
+          );
+          knownDatabases.set(change.database_uuid, dbResult.rows.length > 0);
+        }
+        if (!knownDatabases.get(change.database_uuid)) {
+          databaseChanges.rejected.push({ database_uuid: change.database_uuid, kind: change.kind, id: changeId });
+          continue;
+        }
 
-    // Notify other clients
-    if (wsServer) {
-      wsServer.notifySyncAvailable(userId, deviceId);
+        if (!(await claimOperation(client, userId, change.op_id, batchId, `database_${change.kind}`, `${change.database_uuid}/${changeId}`))) {
+          duplicateOperations.push(change.op_id!);
+          continue;
+        }
+
+        let safeUpdatedAt = normalizeTimestamp(change.updated_at, serverTime);
+        let safeDeletedAt = normalizeNullableTimestamp(change.deleted_at);
+        if (clientTimestamp && !change.hlc) {
+          safeUpdatedAt += timeOffset;
+          if (safeDeletedAt !== null) safeDeletedAt += timeOffset;
+        }
+        const changeHlc = stampHlc(change.hlc, safeUpdatedAt, deviceId);
+        const seq = await nextChangeSeq(client, userId);
+
+        const written = change.kind === 'cell'
+          ? await upsertDatabaseCells(client, userId, change.database_uuid, [{
+              row_id: change.row_id,
+              column_id: change.column_id,
+              value: change.value,
+              deleted_at: safeDeletedAt,
+              updated_at: safeUpdatedAt,
+              hlc: changeHlc,
+            }], seq)
+          : await upsertDatabaseItems(client, userId, change.database_uuid, [{
+              kind: change.kind,
+              item_id: change.id,
+              position: change.position ?? null,
+              data: change.data ?? null,
+              deleted_at: safeDeletedAt,
+              updated_at: safeUpdatedAt,
+              hlc: changeHlc,
+            }], seq);
+
+        if (written > 0) {
+          databaseChanges.applied++;
+          touchedDatabases.add(change.database_uuid);
+          changes.push({
+            type: change.kind === 'cell' ? 'database_cell' : 'database_item',
+            id: changeId,
+            op: safeDeletedAt !== null ? 'delete' : 'upsert',
+            parentId: change.database_uuid,
+          });
+        } else {
+          databaseChanges.superseded++;
+        }
+      }
+
+      for (const databaseUuid of touchedDatabases) {
+        if (await rebuildSnapshot(client, userId, databaseUuid, await nextChangeSeq(client, userId))) {
+          changes.push({ type: 'database', id: databaseUuid, op: 'upsert' });
+        } else {
+          console.warn(`[push:database_changes] snapshot of ${databaseUuid} is unchanged or not tracked per item, left as is`);
+        }
+      }
     }
 
-    res.json({
+    // Settings, merged per key
+    let settingsMerge: { accepted: string[]; rejected: string[]; change_seq: number } | null = null;
+    if (settings) {
+      const merged = await applySettings(client, userId, settings.values, settings.hlc, settings.field_hlcs);
+      if (merged) {
+        settingsMerge = { accepted: merged.accepted, rejected: merged.rejected, change_seq: merged.change_seq };
+        if (merged.accepted.length > 0) {
+          changes.push({ type: 'settings', id: 'account', op: 'upsert' });
+        }
+      }
+    }
+
+    const responseBody = {
       success: true,
+      hlc: serverClock.now(),
       timestamp: Date.now(),
       rejected: rejectedNotes,
-      conflicts: detectedConflicts
-    });
+      conflicts: detectedConflicts,
+      hashMismatches,
+      deltaRejections,
+      fieldMerges,
+      folderMoves,
+      databaseChanges,
+      settings: settingsMerge,
+      duplicateOperations,
+    };
+
+    if (batchId) {
+      await saveBatchResponse(client, userId, batchId, responseBody);
+    }
+
+    await recordPush(
+      client,
+      userId,
+      deviceId,
+      clientTimestamp ? timeOffset : null,
+      rejectedNotes.map(uuid => ({ uuid, reason: rejectionReasons.get(uuid) ?? 'rejected' })),
+      detectedConflicts.map(conflict => ({ uuid: conflict.uuid, resolution: conflict.resolution, conflictId: conflict.conflictId }))
+    );
+
+    const headSeq = await currentChangeSeq(client, userId);
+
+    await client.query('COMMIT');
+
+    // Notify other clients
+    if (headSeq > baseSeq) {
+      notifySyncAvailable(userId, deviceId, { changes, seq: headSeq, baseSeq });
+    }
+
+    res.json(responseBody);
 
   } catch (error) {
     await client.query('ROLLBACK');
@@ -715,22 +1645,36 @@ router.post('/push', async (req: AuthRequest, res: Response) => {
 // ATTACHMENTS PULL
 const AttachmentsPullSchema = z.object({
   noteUuids: z.array(z.string()),
-  lastSyncTimestamp: z.number(),
+  cursor: z.string().optional(),
+  // Applies the device's selective sync settings (see /api/devices)
+  deviceId: z.string().optional(),
+  // Legacy clients that predate change cursors
+  lastSyncTimestamp: z.number().optional(),
 });
 
 router.post('/attachments/pull', async (req: AuthRequest, res: Response) => {
+  const client = await pool.connect();
   try {
-    const { noteUuids, lastSyncTimestamp } = AttachmentsPullSchema.parse(req.body);
+    const { noteUuids, cursor, lastSyncTimestamp, deviceId } = AttachmentsPullSchema.parse(req.body);
     const userId = req.userId!;
 
+    const useCursor = cursor !== undefined || !lastSyncTimestamp;
+    const sinceSeq = cursor !== undefined ? decodeCursor(cursor).seq : 0;
+
+    await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+    const headSeq = await currentChangeSeq(client, userId);
+    const nextCursor = encodeCursor({ seq: Math.max(headSeq, sinceSeq) });
+    const scope = await loadSyncScope(client, userId, deviceId);
+
     if (noteUuids.length === 0) {
-      return res.json({ attachments: [], timestamp: Date.now() });
+      await client.query('COMMIT');
+      return res.json({ attachments: [], cursor: nextCursor, timestamp: Date.now() });
     }
 
-    // Get attachments for the specified notes that were updated/deleted after lastSyncTimestamp
-    // Use >= instead of > to avoid race conditions
-    const attachmentsResult = await pool.query(
-      `SELECT dedup.id, dedup.note_uuid, dedup.file_name, dedup.file_hash, dedup.file_size, dedup.mime_type, dedup.created_at, dedup.updated_at, dedup.deleted_at
+    // Get attachments for the specified notes that changed after the cursor
+    // (legacy: updated after lastSyncTimestamp, using >= to avoid race conditions)
+    const attachmentsResult = await client.query(
+      `SELECT dedup.id, dedup.note_uuid, dedup.file_name, dedup.file_hash, dedup.file_size, dedup.mime_type, dedup.created_at, dedup.updated_at, dedup.deleted_at, dedup.change_seq
        FROM (
          SELECT DISTINCT ON (note_uuid, file_name)
            id,
@@ -741,38 +1685,50 @@ router.post('/attachments/pull', async (req: AuthRequest, res: Response) => {
            mime_type,
            created_at,
            updated_at,
-           deleted_at
+           deleted_at,
+           change_seq
          FROM attachments
          WHERE user_id = $1
          AND note_uuid = ANY($2)
          AND deleted_at IS NULL
          ORDER BY note_uuid, file_name, updated_at DESC, created_at DESC, id DESC
        ) dedup
-       WHERE dedup.updated_at >= $3`,
-      [userId, noteUuids, lastSyncTimestamp]
+       WHERE ${useCursor ? 'dedup.change_seq > $3' : 'dedup.updated_at >= $3'}`,
+      [userId, noteUuids, useCursor ? sinceSeq : lastSyncTimestamp]
     );
 
+    // Selective sync: only notes in the device's folders, only small enough files
+    let noteUuidsInScope: Set<string> | null = null;
+    if (scope) {
+      const notePaths = await client.query(
+        'SELECT uuid, path, folder, name FROM notes WHERE user_id = $1 AND uuid = ANY($2)',
+        [userId, noteUuids]
+      );
+      noteUuidsInScope = new Set(notePaths.rows.filter(row => notePathInScope(scope, notePath(row))).map(row => row.uuid));
+    }
+
+    await client.query('COMMIT');
+
     // Convert BigInt to Number for JSON
-    const attachments = attachmentsResult.rows.map(row => ({
-      id: row.id,
-      note_uuid: row.note_uuid,
-      file_name: row.file_name,
-      file_hash: row.file_hash,
-      file_size: Number(row.file_size),
-      mime_type: row.mime_type,
-      created_at: Number(row.created_at),
-      updated_at: Number(row.updated_at),
-      deleted_at: row.deleted_at ? Number(row.deleted_at) : null,
-    }));
+    const attachments = attachmentsResult.rows
+      .filter(row => (!noteUuidsInScope || noteUuidsInScope.has(row.note_uuid)) && attachmentInScope(scope, Number(row.file_size)))
+      .map(attachmentToJson);
 
     res.json({
       attachments,
+      cursor: nextCursor,
       timestamp: Date.now(),
     });
 
   } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof InvalidCursorError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Attachments pull error:', error);
     res.status(500).json({ error: (error as Error).message });
+  } finally {
+    client.release();
   }
 });
 
@@ -0,0 +1,249 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { PoolClient } from 'pg';
+import { pool } from '../utils/db';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { nextChangeSeq } from '../utils/change-seq';
+import { serverClock } from '../utils/hlc';
+import { notifySyncAvailable } from '../websocket/notifier';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * Soft-deleted entities by trash type
+ * Folders are keyed by path, everything else by uuid.
+ */
+const TRASH_TYPES = {
+  note: { table: 'notes', key: 'uuid', label: 'name' },
+  folder: { table: 'folders', key: 'path', label: 'path' },
+  calendar_event: { table: 'calendar_events', key: 'uuid', label: 'title' },
+  database: { table: 'databases', key: 'uuid', label: 'name' },
+} as const;
+
+type TrashType = keyof typeof TRASH_TYPES;
+
+const TrashTypeSchema = z.enum(['note', 'folder', 'calendar_event', 'database']);
+
+const TrashItemSchema = z.object({
+  type: TrashTypeSchema,
+  id: z.string().min(1),
+});
+
+const RestoreSchema = z.object({
+  deviceId: z.string(),
+  items: z.array(TrashItemSchema).min(1),
+});
+
+const PurgeSchema = z.union([
+  z.object({ items: z.array(TrashItemSchema).min(1) }),
+  // Empty the whole trash
+  z.object({ all: z.literal(true) }),
+]);
+
+/**
+ * Parent folder paths of a path, outermost first ("a/b/c" -> ["a", "a/b"])
+ */
+function ancestorPaths(path: string): string[] {
+  const parts = path.split('/');
+  return parts.slice(1).map((_, i) => parts.slice(0, i + 1).join('/'));
+}
+
+/**
+ * Bring back deleted parent folders so a restored item is not left in a missing folder
+ */
+async function restoreAncestorFolders(client: PoolClient, userId: string, paths: string[], changeSeq: number): Promise<string[]> {
+  if (paths.length === 0) {
+    return [];
+  }
+  const result = await client.query(
+    `UPDATE folders
+     SET deleted_at = NULL, deleted_by_device = NULL,
+         updated_at = GREATEST($3, updated_at + 1), change_seq = $4, hlc = $5
+     WHERE user_id = $1 AND path = ANY($2) AND deleted_at IS NOT NULL AND purged_at IS NULL
+     RETURNING path`,
+    [userId, paths, Date.now(), changeSeq, serverClock.now()]
+  );
+  return result.rows.map(row => row.path);
+}
+
+/**
+ * Drop the payload of purged tombstones; the tombstone itself stays until
+ * compaction so devices that have not synced yet still remove the item
+ */
+async function purgeItems(client: PoolClient, userId: string, type: TrashType, ids: string[] | null): Promise<string[]> {
+  const { table, key } = TRASH_TYPES[type];
+  const wipe = {
+    note: 'content = NULL, content_hash = NULL',
+    folder: 'password_hash = NULL',
+    calendar_event: 'description = NULL, location = NULL',
+    database: `snapshot = '{}'::jsonb`,
+  }[type];
+
+  const result = await client.query(
+    `UPDATE ${table}
+     SET ${wipe}, purged_at = $2
+     WHERE user_id = $1 AND deleted_at IS NOT NULL AND purged_at IS NULL
+       ${ids ? `AND ${key} = ANY($3)` : ''}
+     RETURNING ${key} AS id`,
+    ids ? [userId, Date.now(), ids] : [userId, Date.now()]
+  );
+  const purged: string[] = result.rows.map(row => row.id);
+
+  if (purged.length > 0 && type === 'note') {
+    await client.query('DELETE FROM note_revisions WHERE user_id = $1 AND note_uuid = ANY($2)', [userId, purged]);
+  }
+  if (purged.length > 0 && type === 'database') {
+    await client.query('DELETE FROM database_items WHERE user_id = $1 AND database_uuid = ANY($2)', [userId, purged]);
+    await client.query('DELETE FROM database_cells WHERE user_id = $1 AND database_uuid = ANY($2)', [userId, purged]);
+  }
+  return purged;
+}
+
+// GET /api/trash?type={note|folder|calendar_event|database} - List deleted items (newest deletion first)
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    let types = Object.keys(TRASH_TYPES) as TrashType[];
+    if (req.query.type !== undefined) {
+      const parsed = TrashTypeSchema.safeParse(req.query.type);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'type must be note, folder, calendar_event or database' });
+      }
+      types = [parsed.data];
+    }
+
+    const items = [];
+    for (const type of types) {
+      const { table, key, label } = TRASH_TYPES[type];
+      const result = await pool.query(
+        `SELECT ${key} AS id, ${label} AS name, ${type === 'note' ? 'path, folder' : 'NULL AS path, NULL AS folder'},
+                deleted_at, deleted_by_device, updated_at
+         FROM ${table}
+         WHERE user_id = $1 AND deleted_at IS NOT NULL AND purged_at IS NULL`,
+        [userId]
+      );
+      items.push(...result.rows.map(row => ({
+        type,
+        ...row,
+        deleted_at: Number(row.deleted_at),
+        updated_at: Number(row.updated_at),
+      })));
+    }
+
+    items.sort((a, b) => b.deleted_at - a.deleted_at);
+    res.json({ items });
+  } catch (error) {
+    console.error('List trash error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/trash/restore - Restore deleted items so every device picks them up again
+router.post('/restore', async (req: AuthRequest, res: Response) => {
+  const client = await pool.connect();
+  try {
+    const userId = req.userId!;
+    const { deviceId, items } = RestoreSchema.parse(req.body);
+
+    await client.query('BEGIN');
+    const changeSeq = await nextChangeSeq(client, userId);
+
+    const restored: Array<{ type: TrashType; id: string }> = [];
+    const notFound: Array<{ type: TrashType; id: string }> = [];
+    const restoredFolders = new Set<string>();
+
+    for (const item of items) {
+      const { table, key } = TRASH_TYPES[item.type];
+      const result = await client.query(
+        `UPDATE ${table}
+         SET deleted_at = NULL, deleted_by_device = NULL,
+             updated_at = GREATEST($3, updated_at + 1), change_seq = $4, hlc = $5
+             ${item.type === 'note' ? ', last_modified_by_device = $6' : ''}
+         WHERE user_id = $1 AND ${key} = $2 AND deleted_at IS NOT NULL AND purged_at IS NULL
+         RETURNING ${item.type === 'note' ? 'folder' : item.type === 'folder' ? 'path' : 'NULL'} AS parent`,
+        [userId, item.id, Date.now(), changeSeq, serverClock.now(), ...(item.type === 'note' ? [deviceId] : [])]
+      );
+
+      if (result.rows.length === 0) {
+        notFound.push(item);
+        continue;
+      }
+      restored.push(item);
+
+      const parent: string | null = result.rows[0].parent;
+      if (parent) {
+        const ancestors = item.type === 'note' ? [...ancestorPaths(parent), parent] : ancestorPaths(parent);
+        for (const path of await restoreAncestorFolders(client, userId, ancestors, changeSeq)) {
+          restoredFolders.add(path);
+        }
+      }
+    }
+
+    await client.query('COMMIT');
+
+    if (restored.length > 0) {
+      console.log(`♻️ Restored ${restored.length} item(s) from trash for user ${userId}`);
+      notifySyncAvailable(userId, deviceId, {
+        changes: [
+          ...[...restoredFolders].map(path => ({ type: 'folder' as const, id: path, op: 'upsert' as const })),
+          ...restored.map(item => ({ type: item.type, id: item.id, op: 'upsert' as const })),
+        ],
+        seq: changeSeq,
+        baseSeq: changeSeq - 1,
+      });
+    }
+
+    res.json({ restored, restoredFolders: [...restoredFolders], notFound });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Restore trash error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+// POST /api/trash/purge - Permanently delete items ({ items } or { all: true })
+router.post('/purge', async (req: AuthRequest, res: Response) => {
+  const client = await pool.connect();
+  try {
+    const userId = req.userId!;
+    const body = PurgeSchema.parse(req.body);
+
+    await client.query('BEGIN');
+
+    const purged: Array<{ type: TrashType; id: string }> = [];
+    for (const type of Object.keys(TRASH_TYPES) as TrashType[]) {
+      let ids: string[] | null = null;
+      if ('items' in body) {
+        ids = body.items.filter(item => item.type === type).map(item => item.id);
+        if (ids.length === 0) continue;
+      }
+      for (const id of await purgeItems(client, userId, type, ids)) {
+        purged.push({ type, id });
+      }
+    }
+
+    await client.query('COMMIT');
+
+    console.log(`🗑️ Purged ${purged.length} item(s) from trash for user ${userId}`);
+    res.json({ purged });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Purge trash error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
@@ -0,0 +1,149 @@
+import { Pool, PoolClient } from 'pg';
+
+/**
+ * Server-assigned change sequence
+ *
+ * Every write that other devices must see (notes, folders, calendar events,
+ * databases, attachments) is stamped with a per-user, strictly increasing
+ * change_seq. Pull returns rows with change_seq greater than the client's
+ * cursor, so ordering no longer depends on device clocks.
+ *
+ * The counter lives on users.change_seq. Incrementing it takes the user row
+ * lock until the surrounding transaction ends, which serializes a user's
+ * writers: a sequence number is never visible before all smaller ones.
+ */
+
+type Queryable = Pool | PoolClient;
+
+const CURSOR_VERSION = 1;
+
+export class InvalidCursorError extends Error {
+  status = 400;
+
+  constructor(message = 'Invalid sync cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Allocate the next change sequence number for a user.
+ * Call inside the transaction that performs the write.
+ */
+export async function nextChangeSeq(db: Queryable, userId: string): Promise<number> {
+  const result = await db.query(
+    `UPDATE users SET change_seq = change_seq + 1 WHERE id = $1 RETURNING change_seq`,
+    [userId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error(`Cannot allocate change sequence: user ${userId} not found`);
+  }
+
+  return Number(result.rows[0].change_seq);
+}
+
+/**
+ * Latest committed change sequence for a user (as seen by the caller's snapshot)
+ */
+export async function currentChangeSeq(db: Queryable, userId: string): Promise<number> {
+  const result = await db.query('SELECT change_seq FROM users WHERE id = $1', [userId]);
+  return result.rows.length > 0 ? Number(result.rows[0].change_seq) : 0;
+}
+
+/**
+ * Latest change sequence for a user, taking the user row lock
+ * No other writer can allocate until the caller's transaction ends, so every
+ * sequence number after the returned one belongs to the caller.
+ */
+export async function lockChangeSeq(db: Queryable, userId: string): Promise<number> {
+  const result = await db.query('SELECT change_seq FROM users WHERE id = $1 FOR UPDATE', [userId]);
+  return result.rows.length > 0 ? Number(result.rows[0].change_seq) : 0;
+}
+
+/**
+ * Position in a user's change stream
+ * bootstrapSeq is set while a fresh device is paging through its first sync:
+ * tombstones at or below it are skipped, since the device never had those rows.
+ */
+export interface SyncCursor {
+  seq: number;
+  bootstrapSeq?: number;
+}
+
+/**
+ * Encode a cursor as an opaque string for clients
+ */
+export function encodeCursor(cursor: SyncCursor): string {
+  const payload: Record<string, number> = { v: CURSOR_VERSION, seq: cursor.seq };
+  if (cursor.bootstrapSeq !== undefined && cursor.bootstrapSeq > cursor.seq) {
+    payload.boot = cursor.bootstrapSeq;
+  }
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a client cursor
+ * Throws InvalidCursorError if the cursor was not issued by this server
+ */
+export function decodeCursor(cursor: string): SyncCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (parsed?.v !== CURSOR_VERSION || !isSeq(parsed.seq) || (parsed.boot !== undefined && !isSeq(parsed.boot))) {
+      throw new InvalidCursorError();
+    }
+    return parsed.boot !== undefined ? { seq: parsed.seq, bootstrapSeq: parsed.boot } : { seq: parsed.seq };
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+/**
+ * Tombstones at or below this sequence are skipped for the cursor
+ * A fresh device (cursor 0) skips every tombstone up to the head it started at.
+ */
+export function bootstrapSeqOf(cursor: SyncCursor, headSeq: number): number {
+  return cursor.bootstrapSeq ?? (cursor.seq === 0 ? headSeq : 0);
+}
+
+// Row conditions of a cursor pull: $2 cursor seq, $3 last seq of the page, $4 bootstrapSeq
+export const LIVE_OR_RECENTLY_DELETED = `change_seq > $2 AND change_seq <= $3 AND (deleted_at IS NULL OR change_seq > $4)`;
+export const ANY_CHANGE = `change_seq > $2 AND change_seq <= $3`;
+
+// sync_log deletions of attachment rows that no longer exist (hard-deleted by the orphan cleanup)
+export const ATTACHMENT_PURGES = `entity_type = 'attachment' AND operation = 'delete'
+  AND NOT EXISTS (SELECT 1 FROM attachments a WHERE a.user_id = sync_log.user_id AND a.id::text = sync_log.entity_id)`;
+
+/**
+ * Every change sequence a cursor pull still delivers, one `change_seq` row each
+ * Takes $1 user id and the parameters of the row conditions; `deviceParam` is
+ * the device whose settings overrides are included.
+ */
+export function pendingChangesQuery(deviceParam: string): string {
+  return `SELECT change_seq FROM notes WHERE user_id = $1 AND ${LIVE_OR_RECENTLY_DELETED}
+     UNION ALL
+     SELECT change_seq FROM folders WHERE user_id = $1 AND ${ANY_CHANGE}
+     UNION ALL
+     SELECT change_seq FROM calendar_events WHERE user_id = $1 AND ${LIVE_OR_RECENTLY_DELETED}
+     UNION ALL
+     SELECT change_seq FROM databases WHERE user_id = $1 AND ${LIVE_OR_RECENTLY_DELETED}
+     UNION ALL
+     SELECT change_seq FROM database_items WHERE user_id = $1 AND ${LIVE_OR_RECENTLY_DELETED}
+     UNION ALL
+     SELECT change_seq FROM database_cells WHERE user_id = $1 AND ${LIVE_OR_RECENTLY_DELETED}
+     UNION ALL
+     SELECT change_seq FROM folder_moves WHERE user_id = $1 AND ${ANY_CHANGE}
+     UNION ALL
+     SELECT change_seq FROM attachments WHERE user_id = $1 AND ${LIVE_OR_RECENTLY_DELETED}
+     UNION ALL
+     SELECT change_seq FROM sync_log WHERE user_id = $1 AND ${ANY_CHANGE} AND change_seq > $4 AND ${ATTACHMENT_PURGES}
+     UNION ALL
+     SELECT settings_seq FROM users WHERE id = $1 AND settings_seq > $2 AND settings_seq <= $3
+     UNION ALL
+     SELECT settings_overrides_seq FROM devices
+     WHERE user_id = $1 AND device_id = ${deviceParam} AND settings_overrides_seq > $2 AND settings_overrides_seq <= $3`;
+}
+
+function isSeq(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) >= 0;
+}
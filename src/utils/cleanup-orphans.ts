@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 import pool from './db';
 import { deleteFile } from './storage';
+import { nextChangeSeq } from './change-seq';
 
 /**
  * Cleanup Orphaned Attachments Script
@@ -135,8 +136,8 @@ async function cleanupAttachment(attachment: Attachment): Promise<void> {
     if (!DRY_RUN) {
       await client.query(
         `INSERT INTO sync_log 
-          (user_id, device_id, entity_type, entity_id, operation, data_json, timestamp)
-         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          (user_id, device_id, entity_type, entity_id, operation, data_json, timestamp, change_seq)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
         [
           attachment.user_id,
           'cleanup-script',
@@ -145,11 +146,13 @@ async function cleanupAttachment(attachment: Attachment): Promise<void> {
           'delete',
           JSON.stringify({ 
             id: attachment.id, 
+            noteUuid: attachment.note_uuid,
             fileName: attachment.file_name,
             reason: 'orphaned_cleanup',
             deletedAt: Date.now() 
           }),
           Date.now(),
+          await nextChangeSeq(client, attachment.user_id),
         ]
       );
     } else {
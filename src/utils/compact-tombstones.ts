@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+import pool from './db';
+
+/**
+ * Tombstone compaction script
+ *
+ * Permanently deletes soft-deleted notes, folders, calendar events, databases
+ * and database items/cells whose deletion is older than
+ * TOMBSTONE_RETENTION_DAYS (default 90), plus folder moves of the same age.
+ *
+ * users.compacted_seq records the highest change_seq removed. A device whose
+ * sync cursor is below it may have missed a deletion and is told to resync.
+ *
+ * Run manually or from cron: npm run compact (DRY_RUN=true to only count)
+ */
+
+const RETENTION_DAYS = parseInt(process.env.TOMBSTONE_RETENTION_DAYS || '90');
+const DRY_RUN = process.env.DRY_RUN === 'true';
+
+const TOMBSTONE_TABLES = ['notes', 'folders', 'calendar_events', 'databases', 'database_items', 'database_cells'];
+
+async function compactTable(table: string, cutoff: number, condition: string): Promise<number> {
+  if (DRY_RUN) {
+    const result = await pool.query(`SELECT COUNT(*) AS count FROM ${table} WHERE ${condition}`, [cutoff]);
+    return Number(result.rows[0].count);
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `WITH removed AS (
+         DELETE FROM ${table} WHERE ${condition}
+         RETURNING user_id, change_seq
+       ), per_user AS (
+         SELECT user_id, MAX(change_seq) AS seq, COUNT(*) AS count FROM removed GROUP BY user_id
+       ), bumped AS (
+         UPDATE users u SET compacted_seq = GREATEST(u.compacted_seq, per_user.seq)
+         FROM per_user WHERE u.id = per_user.user_id
+       )
+       SELECT COALESCE(SUM(count), 0) AS count FROM per_user`,
+      [cutoff]
+    );
+
+    await client.query('COMMIT');
+    return Number(result.rows[0].count);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function main() {
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+  console.log('🧹 Compacting tombstones...');
+  console.log(`   Retention: ${RETENTION_DAYS} days`);
+  console.log(`   Mode: ${DRY_RUN ? 'DRY RUN (count only)' : 'LIVE'}`);
+
+  try {
+    let total = 0;
+    for (const table of TOMBSTONE_TABLES) {
+      const count = await compactTable(table, cutoff, 'deleted_at IS NOT NULL AND deleted_at < $1');
+      console.log(`   ${table}: ${count}`);
+      total += count;
+    }
+
+    const moves = await compactTable('folder_moves', cutoff, 'created_at < $1');
+    console.log(`   folder_moves: ${moves}`);
+    total += moves;
+
+    if (!DRY_RUN) {
+      // Revisions of notes that no longer exist
+      const revisions = await pool.query(
+        `DELETE FROM note_revisions r
+         WHERE NOT EXISTS (SELECT 1 FROM notes n WHERE n.user_id = r.user_id AND n.uuid = r.note_uuid)`
+      );
+      console.log(`   note_revisions (orphaned): ${revisions.rowCount ?? 0}`);
+    }
+
+    console.log(`✅ ${DRY_RUN ? 'Would remove' : 'Removed'} ${total} row(s)`);
+  } catch (error) {
+    console.error('❌ Tombstone compaction failed:', error);
+    process.exit(1);
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch(console.error);
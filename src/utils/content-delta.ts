@@ -0,0 +1,82 @@
+import { diffLines, splitLines } from './text-diff';
+
+/**
+ * Line-based content deltas for large notes
+ *
+ * A delta turns a base version of a note into a new one. Its ops walk the
+ * base lines in order:
+ *   { retain: n }        keep the next n base lines
+ *   { delete: n }        drop the next n base lines
+ *   { insert: [lines] }  add lines at this point
+ * and must consume every base line. Lines are split on "\n" only, so CRLF
+ * content round-trips unchanged.
+ */
+
+export type DeltaOp =
+  | { retain: number }
+  | { delete: number }
+  | { insert: string[] };
+
+export interface ContentDelta {
+  base_hash: string;
+  ops: DeltaOp[];
+}
+
+export class ContentDeltaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContentDeltaError';
+  }
+}
+
+/**
+ * Apply delta ops to the base content
+ */
+export function applyContentDelta(base: string, ops: DeltaOp[]): string {
+  const baseLines = splitLines(base);
+  const out: string[] = [];
+  let i = 0;
+
+  for (const op of ops) {
+    if ('insert' in op) {
+      out.push(...op.insert);
+      continue;
+    }
+    const count = 'retain' in op ? op.retain : op.delete;
+    if (i + count > baseLines.length) {
+      throw new ContentDeltaError(`Delta runs past the end of the base (${baseLines.length} lines)`);
+    }
+    if ('retain' in op) {
+      out.push(...baseLines.slice(i, i + count));
+    }
+    i += count;
+  }
+
+  if (i !== baseLines.length) {
+    throw new ContentDeltaError(`Delta covers ${i} of ${baseLines.length} base lines`);
+  }
+  return out.join('\n');
+}
+
+/**
+ * Ops turning `base` into `target`
+ */
+export function createContentDelta(base: string, target: string): DeltaOp[] {
+  return diffLines(splitLines(base), splitLines(target)).map(op => {
+    switch (op.type) {
+      case 'equal':
+        return { retain: op.lines.length };
+      case 'delete':
+        return { delete: op.lines.length };
+      default:
+        return { insert: op.lines };
+    }
+  });
+}
+
+/**
+ * Whether sending the ops is cheaper than sending the content itself
+ */
+export function deltaIsSmaller(ops: DeltaOp[], content: string): boolean {
+  return JSON.stringify(ops).length < JSON.stringify(content).length;
+}
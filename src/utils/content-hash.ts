@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+
+/**
+ * Canonical note content hashing
+ *
+ * Content is normalized before hashing so clients that store CRLF and LF (or,
+ * optionally, differ in trailing whitespace) agree on the hash:
+ *   - CRLF and lone CR become LF
+ *   - CONTENT_HASH_TRAILING_WHITESPACE=strip also drops spaces/tabs at line
+ *     ends and trailing newlines at the end of the note (default: keep)
+ * The stored content itself is not rewritten.
+ *
+ * CONTENT_HASH_MODE decides what /push does with a client hash that does not
+ * match: "correct" (default) stores the server hash, "reject" rejects the note.
+ */
+
+const STRIP_TRAILING_WHITESPACE = process.env.CONTENT_HASH_TRAILING_WHITESPACE === 'strip';
+
+export const CONTENT_HASH_MODE: 'correct' | 'reject' = process.env.CONTENT_HASH_MODE === 'reject' ? 'reject' : 'correct';
+
+/**
+ * Normalized form of note content that the hash is computed over
+ */
+export function canonicalizeContent(content: string): string {
+  let canonical = content.replace(/\r\n?/g, '\n');
+  if (STRIP_TRAILING_WHITESPACE) {
+    canonical = canonical.replace(/[ \t]+$/gm, '').replace(/\n+$/, '');
+  }
+  return canonical;
+}
+
+/**
+ * SHA-256 hex digest of canonicalized note content, as stored in notes.content_hash
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(canonicalizeContent(content), 'utf8').digest('hex');
+}
@@ -0,0 +1,272 @@
+import { Pool, PoolClient } from 'pg';
+
+/**
+ * Granular sync for Notion-style databases
+ *
+ * Columns, rows and views are stored in database_items and cell values in
+ * database_cells, each with its own hlc and change_seq, so concurrent edits to
+ * different rows or cells are last-write-wins per item instead of per database.
+ *
+ * The `databases.snapshot` blob is kept for older clients and rebuilt from the
+ * items after every change. Snapshots are expected to look like
+ *   { columns: [{ id, ... }], rows: [{ id, cells: { <columnId>: value }, ... }], views: [{ id, ... }] }
+ * Other top-level keys are preserved as-is. A snapshot whose columns, rows or
+ * views lack string ids cannot be tracked per item and stays a plain blob.
+ */
+
+type Queryable = Pool | PoolClient;
+
+export type DatabaseItemKind = 'column' | 'row' | 'view';
+
+const SNAPSHOT_KEYS: Record<DatabaseItemKind, string> = {
+  column: 'columns',
+  row: 'rows',
+  view: 'views',
+};
+
+export interface DatabaseItemRecord {
+  kind: DatabaseItemKind;
+  item_id: string;
+  position: number | null;
+  data: Record<string, unknown> | null;
+  deleted_at: number | null;
+  updated_at: number;
+  hlc: string;
+}
+
+export interface DatabaseCellRecord {
+  row_id: string;
+  column_id: string;
+  value: unknown;
+  deleted_at: number | null;
+  updated_at: number;
+  hlc: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a snapshot can be split into items: at least one of columns, rows
+ * and views is present, and every element has a string id
+ */
+export function isGranularSnapshot(snapshot: unknown): snapshot is Record<string, any> {
+  if (!isPlainObject(snapshot)) {
+    return false;
+  }
+  if (!Object.values(SNAPSHOT_KEYS).some(key => Array.isArray(snapshot[key]))) {
+    return false;
+  }
+  return Object.values(SNAPSHOT_KEYS).every(key => {
+    const list = snapshot[key];
+    if (list === undefined) return true;
+    return Array.isArray(list) && list.every(el => isPlainObject(el) && typeof el.id === 'string' && el.id.length > 0);
+  });
+}
+
+/**
+ * Split a snapshot into item and cell records stamped with one hlc
+ * Duplicate ids keep the last occurrence.
+ */
+export function decomposeSnapshot(
+  snapshot: Record<string, any>,
+  updatedAt: number,
+  hlc: string
+): { items: DatabaseItemRecord[]; cells: DatabaseCellRecord[] } {
+  const items = new Map<string, DatabaseItemRecord>();
+  const cells = new Map<string, DatabaseCellRecord>();
+
+  for (const [kind, key] of Object.entries(SNAPSHOT_KEYS) as Array<[DatabaseItemKind, string]>) {
+    const list: any[] = snapshot[key] ?? [];
+    list.forEach((element, index) => {
+      const { id, ...data } = element;
+      if (kind === 'row') {
+        delete data.cells;
+        if (isPlainObject(element.cells)) {
+          for (const [columnId, value] of Object.entries(element.cells)) {
+            cells.set(JSON.stringify([id, columnId]), { row_id: id, column_id: columnId, value, deleted_at: null, updated_at: updatedAt, hlc });
+          }
+        }
+      }
+      items.set(`${kind}:${id}`, { kind, item_id: id, position: index, data, deleted_at: null, updated_at: updatedAt, hlc });
+    });
+  }
+
+  return { items: [...items.values()], cells: [...cells.values()] };
+}
+
+/**
+ * Upsert items; each one only replaces a stored item with an older hlc
+ * A null position appends, a null data keeps the stored data.
+ * Returns the number of items written.
+ */
+export async function upsertDatabaseItems(
+  db: Queryable,
+  userId: string,
+  databaseUuid: string,
+  items: DatabaseItemRecord[],
+  changeSeq: number
+): Promise<number> {
+  if (items.length === 0) {
+    return 0;
+  }
+
+  const result = await db.query(
+    `INSERT INTO database_items (user_id, database_uuid, kind, item_id, position, data, updated_at, deleted_at, hlc, change_seq)
+     SELECT $1, $2, i.kind, i.item_id,
+            COALESCE(i.position, cur.position, (
+              SELECT COALESCE(MAX(position), -1) + 1 FROM database_items
+              WHERE user_id = $1 AND database_uuid = $2 AND kind = i.kind
+            )),
+            COALESCE(i.data, cur.data, '{}'::jsonb), i.updated_at, i.deleted_at, i.hlc, $3
+     FROM jsonb_to_recordset($4::jsonb) AS i(kind text, item_id text, position float8, data jsonb, updated_at bigint, deleted_at bigint, hlc text)
+     LEFT JOIN database_items cur
+       ON cur.user_id = $1 AND cur.database_uuid = $2 AND cur.kind = i.kind AND cur.item_id = i.item_id
+     ON CONFLICT (user_id, database_uuid, kind, item_id) DO UPDATE SET
+       position = EXCLUDED.position,
+       data = EXCLUDED.data,
+       updated_at = GREATEST(EXCLUDED.updated_at, database_items.updated_at),
+       deleted_at = EXCLUDED.deleted_at,
+       hlc = EXCLUDED.hlc,
+       change_seq = EXCLUDED.change_seq
+     WHERE database_items.hlc IS NULL OR EXCLUDED.hlc > database_items.hlc
+     RETURNING item_id`,
+    [userId, databaseUuid, changeSeq, JSON.stringify(items)]
+  );
+
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Upsert cells; each one only replaces a stored cell with an older hlc
+ * Returns the number of cells written.
+ */
+export async function upsertDatabaseCells(
+  db: Queryable,
+  userId: string,
+  databaseUuid: string,
+  cells: DatabaseCellRecord[],
+  changeSeq: number
+): Promise<number> {
+  if (cells.length === 0) {
+    return 0;
+  }
+
+  const result = await db.query(
+    `INSERT INTO database_cells (user_id, database_uuid, row_id, column_id, value, updated_at, deleted_at, hlc, change_seq)
+     SELECT $1, $2, c.row_id, c.column_id, c.value, c.updated_at, c.deleted_at, c.hlc, $3
+     FROM jsonb_to_recordset($4::jsonb) AS c(row_id text, column_id text, value jsonb, updated_at bigint, deleted_at bigint, hlc text)
+     ON CONFLICT (user_id, database_uuid, row_id, column_id) DO UPDATE SET
+       value = EXCLUDED.value,
+       updated_at = GREATEST(EXCLUDED.updated_at, database_cells.updated_at),
+       deleted_at = EXCLUDED.deleted_at,
+       hlc = EXCLUDED.hlc,
+       change_seq = EXCLUDED.change_seq
+     WHERE database_cells.hlc IS NULL OR EXCLUDED.hlc > database_cells.hlc
+     RETURNING row_id`,
+    [userId, databaseUuid, changeSeq, JSON.stringify(cells.map(cell => ({ ...cell, value: cell.value ?? null })))]
+  );
+
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Apply a full snapshot pushed by an older client
+ * Items and cells missing from the snapshot are deleted, unless they were
+ * changed after the snapshot was taken (newer hlc) or, when `seenSeq` (the
+ * pushing device's last pulled change_seq) is known, the device never pulled
+ * them.
+ */
+export async function applySnapshot(
+  db: Queryable,
+  userId: string,
+  databaseUuid: string,
+  snapshot: Record<string, any>,
+  updatedAt: number,
+  hlc: string,
+  changeSeq: number,
+  seenSeq: number | null = null
+): Promise<void> {
+  const { items, cells } = decomposeSnapshot(snapshot, updatedAt, hlc);
+
+  await upsertDatabaseItems(db, userId, databaseUuid, items, changeSeq);
+  await upsertDatabaseCells(db, userId, databaseUuid, cells, changeSeq);
+
+  await db.query(
+    `UPDATE database_items
+     SET deleted_at = $5, updated_at = GREATEST($5, updated_at), hlc = $6, change_seq = $7
+     WHERE user_id = $1 AND database_uuid = $2 AND deleted_at IS NULL
+       AND NOT EXISTS (
+         SELECT 1 FROM unnest($3::text[], $4::text[]) AS kept(kind, item_id)
+         WHERE kept.kind = database_items.kind AND kept.item_id = database_items.item_id
+       )
+       AND (hlc IS NULL OR hlc < $6)
+       AND ($8::bigint IS NULL OR change_seq <= $8)`,
+    [userId, databaseUuid, items.map(item => item.kind), items.map(item => item.item_id), updatedAt, hlc, changeSeq, seenSeq]
+  );
+
+  await db.query(
+    `UPDATE database_cells
+     SET deleted_at = $5, updated_at = GREATEST($5, updated_at), hlc = $6, change_seq = $7
+     WHERE user_id = $1 AND database_uuid = $2 AND deleted_at IS NULL
+       AND NOT EXISTS (
+         SELECT 1 FROM unnest($3::text[], $4::text[]) AS kept(row_id, column_id)
+         WHERE kept.row_id = database_cells.row_id AND kept.column_id = database_cells.column_id
+       )
+       AND (hlc IS NULL OR hlc < $6)
+       AND ($8::bigint IS NULL OR change_seq <= $8)`,
+    [userId, databaseUuid, cells.map(cell => cell.row_id), cells.map(cell => cell.column_id), updatedAt, hlc, changeSeq, seenSeq]
+  );
+}
+
+/**
+ * Regenerate a database's snapshot from its items for older clients
+ * Snapshots that are not tracked per item are left untouched, and an
+ * unchanged snapshot is not written again. Returns whether it was written.
+ */
+export async function rebuildSnapshot(db: Queryable, userId: string, databaseUuid: string, changeSeq: number): Promise<boolean> {
+  const current = await db.query(
+    'SELECT snapshot FROM databases WHERE user_id = $1 AND uuid = $2',
+    [userId, databaseUuid]
+  );
+  if (current.rows.length === 0 || !isGranularSnapshot(current.rows[0].snapshot)) {
+    return false;
+  }
+
+  const itemsResult = await db.query(
+    `SELECT kind, item_id, data FROM database_items
+     WHERE user_id = $1 AND database_uuid = $2 AND deleted_at IS NULL
+     ORDER BY position, item_id`,
+    [userId, databaseUuid]
+  );
+  const cellsResult = await db.query(
+    `SELECT row_id, column_id, value FROM database_cells
+     WHERE user_id = $1 AND database_uuid = $2 AND deleted_at IS NULL`,
+    [userId, databaseUuid]
+  );
+
+  const cellsByRow = new Map<string, Record<string, unknown>>();
+  for (const cell of cellsResult.rows) {
+    const rowCells = cellsByRow.get(cell.row_id) ?? {};
+    rowCells[cell.column_id] = cell.value;
+    cellsByRow.set(cell.row_id, rowCells);
+  }
+
+  const snapshot: Record<string, any> = { ...current.rows[0].snapshot, columns: [], rows: [], views: [] };
+  for (const item of itemsResult.rows) {
+    const kind = item.kind as DatabaseItemKind;
+    const element = kind === 'row'
+      ? { id: item.item_id, ...item.data, cells: cellsByRow.get(item.item_id) ?? {} }
+      : { id: item.item_id, ...item.data };
+    snapshot[SNAPSHOT_KEYS[kind]].push(element);
+  }
+
+  const result = await db.query(
+    `UPDATE databases
+     SET snapshot = $3::jsonb, updated_at = GREATEST($4, updated_at + 1), change_seq = $5
+     WHERE user_id = $1 AND uuid = $2 AND snapshot IS DISTINCT FROM $3::jsonb`,
+    [userId, databaseUuid, JSON.stringify(snapshot), Date.now(), changeSeq]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
@@ -0,0 +1,87 @@
+import { Pool, PoolClient } from 'pg';
+import { bootstrapSeqOf, pendingChangesQuery, SyncCursor } from './change-seq';
+
+/**
+ * Per-device sync diagnostics, reported by GET /api/sync/status
+ *
+ * Pull records the device's cursor position, push records its clock skew and
+ * keeps the most recent rejected notes and conflicts (newest first, capped at
+ * RECENT_ISSUES_LIMIT each).
+ */
+
+type Queryable = Pool | PoolClient;
+
+const RECENT_ISSUES_LIMIT = 20;
+
+export interface NoteRejectionRecord {
+  uuid: string;
+  reason: string;
+}
+
+export interface ConflictRecord {
+  uuid: string;
+  resolution: string;
+  conflictId?: string;
+}
+
+/**
+ * Prepend `$n` (a JSON array) to a JSONB array column, keeping the newest entries
+ */
+function prependRecent(column: string, param: string): string {
+  return `(SELECT COALESCE(jsonb_agg(entry ORDER BY ord), '[]'::jsonb)
+           FROM (
+             SELECT entry, ord FROM jsonb_array_elements(${param}::jsonb || devices.${column}) WITH ORDINALITY AS e(entry, ord)
+             ORDER BY ord
+             LIMIT ${RECENT_ISSUES_LIMIT}
+           ) recent)`;
+}
+
+export async function recordPull(db: Queryable, userId: string, deviceId: string, cursor: SyncCursor): Promise<void> {
+  const now = Date.now();
+  await db.query(
+    `INSERT INTO devices (user_id, device_id, last_sync, last_pull_at, last_pull_seq, last_pull_bootstrap_seq)
+     VALUES ($1, $2, NOW(), $3, $4, $5)
+     ON CONFLICT (user_id, device_id)
+     DO UPDATE SET last_sync = NOW(), last_pull_at = $3, last_pull_seq = $4, last_pull_bootstrap_seq = $5`,
+    [userId, deviceId, now, cursor.seq, cursor.bootstrapSeq ?? null]
+  );
+}
+
+export async function recordPush(
+  db: Queryable,
+  userId: string,
+  deviceId: string,
+  clockSkewMs: number | null,
+  rejected: NoteRejectionRecord[],
+  conflicts: ConflictRecord[]
+): Promise<void> {
+  const now = Date.now();
+  const stamp = <T>(entries: T[]) => JSON.stringify(entries.map(entry => ({ ...entry, at: now })));
+
+  await db.query(
+    `INSERT INTO devices (user_id, device_id, last_sync, last_push_at, clock_skew_ms, recent_rejections, recent_conflicts)
+     VALUES ($1, $2, NOW(), $3, $4, $5::jsonb, $6::jsonb)
+     ON CONFLICT (user_id, device_id)
+     DO UPDATE SET last_sync = NOW(),
+                   last_push_at = $3,
+                   clock_skew_ms = COALESCE($4, devices.clock_skew_ms),
+                   recent_rejections = ${prependRecent('recent_rejections', '$5')},
+                   recent_conflicts = ${prependRecent('recent_conflicts', '$6')}`,
+    [userId, deviceId, now, clockSkewMs, stamp(rejected), stamp(conflicts)]
+  );
+}
+
+/**
+ * Number of changes the device's next pulls return from `cursor` up to `headSeq`
+ * Counted with pull's own rules, so tombstones skipped during a first sync are
+ * not included.
+ */
+export async function countChangesSince(db: Queryable, userId: string, deviceId: string, cursor: SyncCursor, headSeq: number): Promise<number> {
+  const result = await db.query(
+    `SELECT COUNT(*) AS pending FROM (
+       ${pendingChangesQuery('$5::text')}
+     ) pending`,
+    [userId, cursor.seq, headSeq, bootstrapSeqOf(cursor, headSeq), deviceId]
+  );
+  return Number(result.rows[0].pending);
+}
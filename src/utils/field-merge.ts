@@ -0,0 +1,97 @@
+import { compareHlc, serverClock } from './hlc';
+
+/**
+ * Field-level last-write-wins for entity metadata
+ *
+ * Each metadata field keeps its own HLC stamp in the row's field_hlcs column,
+ * so concurrent changes to different fields (e.g. one device toggles
+ * is_favorite while another recolors the icon) both survive. Content is
+ * merged separately.
+ */
+
+export type FieldHlcs = Record<string, string>;
+
+export const NOTE_METADATA_FIELDS = ['name', 'path', 'folder', 'order_index', 'icon', 'icon_color', 'is_favorite'] as const;
+export const FOLDER_METADATA_FIELDS = ['icon', 'color', 'icon_color', 'order_index', 'is_locked', 'password_hash', 'is_favorite'] as const;
+export const SETTINGS_FIELDS = ['openrouterApiKey', 'chatModel', 'embeddingModel', 'braveApiKey', 'allowVsCodeCopilotWrapper'] as const;
+
+export interface FieldMergeResult {
+  values: Record<string, unknown>;
+  fieldHlcs: FieldHlcs;
+  // Fields whose incoming value replaced the stored one
+  accepted: string[];
+  // Fields whose incoming value lost to a newer stored change
+  rejected: string[];
+}
+
+/**
+ * Per-field stamps for an incoming entity
+ * Fields the client did not stamp (or stamped with an untrusted hlc) take the
+ * entity's own stamp.
+ */
+export function stampFields(fields: readonly string[], clientStamps: Record<string, string> | undefined, entityHlc: string): FieldHlcs {
+  const stamps: FieldHlcs = {};
+  for (const field of fields) {
+    const clientStamp = clientStamps?.[field];
+    stamps[field] = (clientStamp && serverClock.receive(clientStamp)) || entityHlc;
+  }
+  return stamps;
+}
+
+/**
+ * Fields the client sent without a stamp
+ * A client that pushes the whole row cannot tell them from its own edits, so
+ * their entity stamp only counts where the value differs (see mergeFields).
+ */
+export function unstampedFields(fields: readonly string[], clientStamps: Record<string, string> | undefined): string[] {
+  return fields.filter(field => !clientStamps?.[field]);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return (a ?? null) === (b ?? null);
+}
+
+/**
+ * Merge incoming field values into the stored row, field by field
+ * Fields left undefined in `incoming` keep their stored value. A stored field
+ * without a stamp (rows written before field stamps existed) always loses.
+ * `unstamped` fields whose value is unchanged keep their stored stamp, so an
+ * untouched field does not outrank another device's later edit.
+ */
+export function mergeFields(
+  fields: readonly string[],
+  current: Record<string, unknown>,
+  currentHlcs: FieldHlcs | null,
+  incoming: Record<string, unknown>,
+  incomingHlcs: FieldHlcs,
+  unstamped: readonly string[] = []
+): FieldMergeResult {
+  const values: Record<string, unknown> = {};
+  const fieldHlcs: FieldHlcs = { ...(currentHlcs ?? {}) };
+  const accepted: string[] = [];
+  const rejected: string[] = [];
+
+  for (const field of fields) {
+    const storedHlc = currentHlcs?.[field];
+    const incomingHlc = incomingHlcs[field];
+    values[field] = current[field];
+
+    if (incoming[field] === undefined) {
+      continue;
+    }
+
+    if (sameValue(incoming[field], current[field])) {
+      if (!unstamped.includes(field) && compareHlc(incomingHlc, storedHlc) > 0) {
+        fieldHlcs[field] = incomingHlc;
+      }
+    } else if (!storedHlc || compareHlc(incomingHlc, storedHlc) > 0) {
+      values[field] = incoming[field];
+      fieldHlcs[field] = incomingHlc;
+      accepted.push(field);
+    } else {
+      rejected.push(field);
+    }
+  }
+
+  return { values, fieldHlcs, accepted, rejected };
+}
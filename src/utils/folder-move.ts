@@ -0,0 +1,173 @@
+import { PoolClient } from 'pg';
+import { nextChangeSeq } from './change-seq';
+
+/**
+ * Folder rename/move
+ *
+ * Moves a folder, its live descendant folders and every live note below it
+ * (path and folder) in the caller's transaction. Folders are keyed by path, so
+ * each one is written at its new path and its old path is left as a tombstone:
+ * devices that do not apply folder_moves drop the old folder instead of
+ * pushing it back. Note uuids are kept, and all written rows share one
+ * change_seq with the folder_moves record, so pull delivers the move as a
+ * single change that can never be split across pages.
+ */
+
+export class FolderMoveError extends Error {
+  constructor(message: string, public reason: 'invalid' | 'not_found' | 'target_exists') {
+    super(message);
+    this.name = 'FolderMoveError';
+  }
+}
+
+export interface FolderMoveResult {
+  id: string;
+  from: string;
+  to: string;
+  folders: number;
+  notes: number;
+  change_seq: number;
+  hlc: string;
+}
+
+export function normalizeFolderPath(value: string): string {
+  return value.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+}
+
+// Matches `$n` itself or anything below it
+const IN_SUBTREE = (column: string, param: string) =>
+  `(${column} = ${param} OR left(${column}, length(${param}) + 1) = ${param} || '/')`;
+
+export async function moveFolder(
+  client: PoolClient,
+  userId: string,
+  fromPath: string,
+  toPath: string,
+  deviceId: string,
+  hlc: string
+): Promise<FolderMoveResult> {
+  const from = normalizeFolderPath(fromPath);
+  const to = normalizeFolderPath(toPath);
+
+  if (!from || !to) {
+    throw new FolderMoveError('Folder paths must not be empty', 'invalid');
+  }
+  if (from === to || to.startsWith(`${from}/`)) {
+    throw new FolderMoveError('Cannot move a folder onto itself or into its own subfolder', 'invalid');
+  }
+
+  // Take the user's change_seq lock first so no other push interleaves
+  const changeSeq = await nextChangeSeq(client, userId);
+
+  const source = await client.query(
+    `SELECT
+       (SELECT COUNT(*) FROM folders WHERE user_id = $1 AND deleted_at IS NULL AND ${IN_SUBTREE('path', '$2::text')}) AS folders,
+       (SELECT COUNT(*) FROM notes WHERE user_id = $1 AND deleted_at IS NULL AND left(path, length($2::text) + 1) = $2::text || '/') AS notes`,
+    [userId, from]
+  );
+  if (Number(source.rows[0].folders) === 0 && Number(source.rows[0].notes) === 0) {
+    throw new FolderMoveError(`Folder "${from}" not found`, 'not_found');
+  }
+
+  const target = await client.query(
+    `SELECT
+       EXISTS (SELECT 1 FROM folders WHERE user_id = $1 AND deleted_at IS NULL AND ${IN_SUBTREE('path', '$2::text')})
+       OR EXISTS (SELECT 1 FROM notes WHERE user_id = $1 AND deleted_at IS NULL AND left(path, length($2::text) + 1) = $2::text || '/')
+       AS taken`,
+    [userId, to]
+  );
+  if (target.rows[0].taken) {
+    throw new FolderMoveError(`Folder "${to}" already exists`, 'target_exists');
+  }
+
+  // Deleted notes still hold their paths (UNIQUE(user_id, path)); move the ones in the way aside
+  await client.query(
+    `UPDATE notes
+     SET path = path || '.deleted-' || uuid::text
+     WHERE user_id = $1 AND deleted_at IS NOT NULL
+       AND path IN (
+         SELECT $3::text || substr(path, length($2::text) + 1) FROM notes
+         WHERE user_id = $1 AND deleted_at IS NULL AND left(path, length($2::text) + 1) = $2::text || '/'
+       )`,
+    [userId, from, to]
+  );
+
+  const now = Date.now();
+
+  // Folder tombstones already at a target path are revived as the moved folder
+  // rather than deleted; purging them is left to tombstone compaction. A
+  // tombstone newer than the move stays deleted. Stamps never move backwards,
+  // since the move's hlc may come from a device whose clock lags.
+  await client.query(
+    `INSERT INTO folders (user_id, path, icon, color, icon_color, order_index, is_locked, password_hash, is_favorite, field_hlcs, created_at, updated_at, deleted_at, hlc, change_seq)
+     SELECT user_id, $3::text || substr(path, length($2::text) + 1), icon, color, icon_color, order_index, is_locked, password_hash, is_favorite, field_hlcs,
+            created_at, GREATEST($4, updated_at + 1), NULL, $5, $6
+     FROM folders
+     WHERE user_id = $1 AND deleted_at IS NULL AND ${IN_SUBTREE('path', '$2::text')}
+     ON CONFLICT (user_id, path) DO UPDATE SET
+       icon = EXCLUDED.icon,
+       color = EXCLUDED.color,
+       icon_color = EXCLUDED.icon_color,
+       order_index = EXCLUDED.order_index,
+       is_locked = EXCLUDED.is_locked,
+       password_hash = EXCLUDED.password_hash,
+       is_favorite = EXCLUDED.is_favorite,
+       field_hlcs = EXCLUDED.field_hlcs,
+       created_at = EXCLUDED.created_at,
+       updated_at = GREATEST(EXCLUDED.updated_at, folders.updated_at + 1),
+       deleted_at = NULL,
+       deleted_by_device = NULL,
+       purged_at = NULL,
+       hlc = EXCLUDED.hlc,
+       change_seq = EXCLUDED.change_seq
+     WHERE folders.hlc IS NULL OR EXCLUDED.hlc > folders.hlc`,
+    [userId, from, to, now, hlc, changeSeq]
+  );
+
+  const foldersResult = await client.query(
+    `UPDATE folders
+     SET deleted_at = $3,
+         deleted_by_device = $4,
+         updated_at = GREATEST($3, updated_at + 1),
+         hlc = GREATEST(hlc, $5),
+         change_seq = $6
+     WHERE user_id = $1 AND deleted_at IS NULL AND ${IN_SUBTREE('path', '$2::text')}`,
+    [userId, from, now, deviceId, hlc, changeSeq]
+  );
+
+  const notesResult = await client.query(
+    `UPDATE notes
+     SET path = $3::text || substr(path, length($2::text) + 1),
+         folder = CASE
+           WHEN ${IN_SUBTREE('folder', '$2::text')} THEN $3::text || substr(folder, length($2::text) + 1)
+           ELSE folder
+         END,
+         updated_at = GREATEST($4, updated_at + 1),
+         last_modified_by_device = $5,
+         hlc = GREATEST(hlc, $6),
+         field_hlcs = field_hlcs || jsonb_build_object(
+           'path', GREATEST(field_hlcs->>'path' COLLATE "C", $6::text),
+           'folder', GREATEST(field_hlcs->>'folder' COLLATE "C", $6::text)
+         ),
+         change_seq = $7
+     WHERE user_id = $1 AND deleted_at IS NULL AND left(path, length($2::text) + 1) = $2::text || '/'`,
+    [userId, from, to, now, deviceId, hlc, changeSeq]
+  );
+
+  const moveResult = await client.query(
+    `INSERT INTO folder_moves (user_id, from_path, to_path, device_id, hlc, change_seq, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING id`,
+    [userId, from, to, deviceId, hlc, changeSeq, now]
+  );
+
+  return {
+    id: moveResult.rows[0].id,
+    from,
+    to,
+    folders: foldersResult.rowCount ?? 0,
+    notes: notesResult.rowCount ?? 0,
+    change_seq: changeSeq,
+    hlc,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Hybrid logical clock (HLC)
+ *
+ * Timestamps are strings "<wall ms, 15 digits>:<counter, 6 digits>:<node>" so
+ * they compare correctly as plain strings (columns use COLLATE "C"). Wall time
+ * only moves forward, and the counter orders events within one millisecond,
+ * so a change stamped after observing another always sorts after it even when
+ * device clocks disagree.
+ *
+ * HLC_MAX_DRIFT_MS bounds how far ahead of the server's wall clock a client
+ * stamp may be; stamps beyond it are not trusted.
+ */
+
+const WALL_DIGITS = 15;
+const COUNTER_DIGITS = 6;
+const MAX_COUNTER = 10 ** COUNTER_DIGITS - 1;
+const HLC_PATTERN = /^(\d{15}):(\d{6}):(.+)$/;
+
+export interface Hlc {
+  wall: number;
+  counter: number;
+  node: string;
+}
+
+export function formatHlc(hlc: Hlc): string {
+  return `${String(hlc.wall).padStart(WALL_DIGITS, '0')}:${String(hlc.counter).padStart(COUNTER_DIGITS, '0')}:${hlc.node}`;
+}
+
+export function parseHlc(value: unknown): Hlc | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = HLC_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  return { wall: Number(match[1]), counter: Number(match[2]), node: match[3] };
+}
+
+/**
+ * Order two HLC strings; a missing stamp sorts first
+ */
+export function compareHlc(a: string | null | undefined, b: string | null | undefined): number {
+  if (a === b) return 0;
+  if (!a) return -1;
+  if (!b) return 1;
+  return a < b ? -1 : 1;
+}
+
+export class HybridLogicalClock {
+  private wall = 0;
+  private counter = 0;
+
+  constructor(private node: string, private maxDriftMs: number) {}
+
+  /**
+   * Stamp a local event
+   */
+  now(): string {
+    const physical = Date.now();
+    if (physical > this.wall) {
+      this.wall = physical;
+      this.counter = 0;
+    } else {
+      this.tick();
+    }
+    return formatHlc({ wall: this.wall, counter: this.counter, node: this.node });
+  }
+
+  /**
+   * Observe a remote stamp so later local stamps sort after it
+   * Returns the normalized remote stamp, or null if it is malformed or too far
+   * ahead of the server clock.
+   */
+  receive(remote: string): string | null {
+    const parsed = parseHlc(remote);
+    const physical = Date.now();
+    if (!parsed || parsed.wall > physical + this.maxDriftMs) {
+      return null;
+    }
+
+    const wall = Math.max(this.wall, parsed.wall, physical);
+    if (wall === this.wall && wall === parsed.wall) {
+      this.counter = Math.max(this.counter, parsed.counter);
+      this.tick();
+    } else if (wall === this.wall) {
+      this.tick();
+    } else if (wall === parsed.wall) {
+      this.wall = wall;
+      this.counter = parsed.counter;
+      this.tick();
+    } else {
+      this.wall = wall;
+      this.counter = 0;
+    }
+
+    return formatHlc(parsed);
+  }
+
+  private tick(): void {
+    if (this.counter >= MAX_COUNTER) {
+      // Counter exhausted within one millisecond: borrow the next one
+      this.wall += 1;
+      this.counter = 0;
+    } else {
+      this.counter += 1;
+    }
+  }
+}
+
+/**
+ * Process-wide clock used to stamp server-side writes
+ */
+export const serverClock = new HybridLogicalClock(
+  process.env.HLC_NODE_ID || 'server',
+  parseInt(process.env.HLC_MAX_DRIFT_MS || '86400000')
+);
@@ -0,0 +1,88 @@
+import { PoolClient } from 'pg';
+
+/**
+ * Idempotent push batches
+ *
+ * Clients tag each /push with a batchId and each entity with an op_id. The
+ * first request claims the batch and stores its response; a retry of the same
+ * batch gets that response back without writing again. Operation IDs guard
+ * individual entity writes that are re-sent inside a new batch.
+ *
+ * Records are kept for PUSH_IDEMPOTENCY_RETENTION_HOURS (default 7 days).
+ */
+
+const RETENTION_MS = parseInt(process.env.PUSH_IDEMPOTENCY_RETENTION_HOURS || '168') * 60 * 60 * 1000;
+
+export type BatchClaim =
+  | { claimed: true }
+  | { claimed: false; response: any | null };
+
+/**
+ * Claim a batch for this transaction
+ * If another request already committed the batch, its stored response is returned.
+ * A concurrent request with the same batchId blocks here until that one finishes.
+ */
+export async function claimBatch(client: PoolClient, userId: string, batchId: string, deviceId: string): Promise<BatchClaim> {
+  const inserted = await client.query(
+    `INSERT INTO push_batches (user_id, batch_id, device_id, created_at)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (user_id, batch_id) DO NOTHING
+     RETURNING batch_id`,
+    [userId, batchId, deviceId, Date.now()]
+  );
+
+  if (inserted.rows.length > 0) {
+    return { claimed: true };
+  }
+
+  const existing = await client.query(
+    'SELECT response FROM push_batches WHERE user_id = $1 AND batch_id = $2',
+    [userId, batchId]
+  );
+  return { claimed: false, response: existing.rows[0]?.response ?? null };
+}
+
+/**
+ * Store the response of a claimed batch so retries can replay it
+ */
+export async function saveBatchResponse(client: PoolClient, userId: string, batchId: string, response: unknown): Promise<void> {
+  await client.query(
+    'UPDATE push_batches SET response = $3 WHERE user_id = $1 AND batch_id = $2',
+    [userId, batchId, JSON.stringify(response)]
+  );
+}
+
+/**
+ * Record an entity operation; returns false if it was already applied
+ * Operations without an id are always applied.
+ */
+export async function claimOperation(
+  client: PoolClient,
+  userId: string,
+  opId: string | null | undefined,
+  batchId: string | undefined,
+  entityType: string,
+  entityId: string
+): Promise<boolean> {
+  if (!opId) {
+    return true;
+  }
+
+  const inserted = await client.query(
+    `INSERT INTO push_operations (user_id, op_id, batch_id, entity_type, entity_id, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (user_id, op_id) DO NOTHING
+     RETURNING op_id`,
+    [userId, opId, batchId ?? null, entityType, entityId, Date.now()]
+  );
+  return inserted.rows.length > 0;
+}
+
+/**
+ * Drop a user's batch and operation records past the retention window
+ */
+export async function pruneIdempotencyRecords(client: PoolClient, userId: string): Promise<void> {
+  const cutoff = Date.now() - RETENTION_MS;
+  await client.query('DELETE FROM push_batches WHERE user_id = $1 AND created_at < $2', [userId, cutoff]);
+  await client.query('DELETE FROM push_operations WHERE user_id = $1 AND created_at < $2', [userId, cutoff]);
+}
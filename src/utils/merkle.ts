@@ -0,0 +1,80 @@
+import { createHash } from 'crypto';
+
+/**
+ * Merkle-style digests for sync reconciliation
+ *
+ * Every live entity is a leaf. Its bucket key is sha256(id) in hex and its
+ * hash is sha256 of the fields below joined with "\n":
+ *   notes           uuid, content_hash (or ""), path
+ *   folders         path, hlc (or "")
+ *   calendar_events uuid, hlc (or "")
+ *   databases       uuid, hlc (or "")
+ * The digest of a prefix is sha256 of the concatenated leaf hashes whose key
+ * starts with it, in key order (the empty prefix covers the whole type). A
+ * client computes the same digests locally and descends into the prefixes
+ * whose digests differ.
+ *
+ * content_hash is always the server's canonical hash: writes compute it and
+ * the migration recomputes it for notes stored before that.
+ */
+
+export type ReconcileType = 'notes' | 'folders' | 'calendar_events' | 'databases';
+
+export interface MerkleLeaf {
+  id: string;
+  key: string;
+  hash: string;
+}
+
+export interface BucketDigest {
+  prefix: string;
+  digest: string;
+  count: number;
+}
+
+export function sha256Hex(value: string): string {
+  return createHash('sha256').update(value, 'utf8').digest('hex');
+}
+
+export function leafFields(type: ReconcileType, row: any): string[] {
+  switch (type) {
+    case 'notes':
+      return [row.uuid, row.content_hash ?? '', row.path];
+    case 'folders':
+      return [row.path, row.hlc ?? ''];
+    default:
+      return [row.uuid, row.hlc ?? ''];
+  }
+}
+
+/**
+ * Leaves sorted by bucket key
+ */
+export function buildLeaves(type: ReconcileType, rows: any[]): MerkleLeaf[] {
+  return rows
+    .map(row => {
+      const fields = leafFields(type, row);
+      return { id: fields[0], key: sha256Hex(fields[0]), hash: sha256Hex(fields.join('\n')) };
+    })
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+}
+
+export function digestLeaves(leaves: MerkleLeaf[]): string {
+  return sha256Hex(leaves.map(leaf => leaf.hash).join(''));
+}
+
+/**
+ * Digests of the 16 child prefixes one hex digit below `prefix` (empty ones omitted)
+ */
+export function childDigests(leaves: MerkleLeaf[], prefix: string): BucketDigest[] {
+  const groups = new Map<string, MerkleLeaf[]>();
+  for (const leaf of leaves) {
+    const child = leaf.key.slice(0, prefix.length + 1);
+    const group = groups.get(child) ?? [];
+    group.push(leaf);
+    groups.set(child, group);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : 1))
+    .map(([child, group]) => ({ prefix: child, digest: digestLeaves(group), count: group.length }));
+}
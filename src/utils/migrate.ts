@@ -1,4 +1,6 @@
 import pool from './db';
+import { applySnapshot, isGranularSnapshot } from './database-items';
+import { hashContent } from './content-hash';
 
 /**
  * Database schema for NotNative Sync Server
@@ -111,6 +113,20 @@ CREATE TABLE IF NOT EXISTS folders (
 
 CREATE INDEX IF NOT EXISTS idx_folders_user ON folders(user_id);
 
+-- Folder renames/moves, delivered to devices as one change (see src/utils/folder-move.ts)
+CREATE TABLE IF NOT EXISTS folder_moves (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  from_path VARCHAR(500) NOT NULL,
+  to_path VARCHAR(500) NOT NULL,
+  device_id VARCHAR(255),
+  hlc TEXT COLLATE "C",
+  change_seq BIGINT NOT NULL,
+  created_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_folder_moves_change_seq ON folder_moves(user_id, change_seq);
+
 -- Attachments table (metadata only, files in S3)
 CREATE TABLE IF NOT EXISTS attachments (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -159,10 +175,10 @@ CREATE INDEX IF NOT EXISTS idx_calendar_events_uuid ON calendar_events(uuid);
 CREATE INDEX IF NOT EXISTS idx_calendar_events_start ON calendar_events(start_time);
 CREATE INDEX IF NOT EXISTS idx_calendar_events_note ON calendar_events(note_uuid);
 
--- Notion-style databases (coarse last-write-wins snapshots)
--- The whole database (columns + rows + cells + views) is stored as one
--- JSONB blob keyed by uuid. This trades granular conflict resolution
--- for simplicity; multi-device concurrent edits resolve by updated_at.
+-- Notion-style databases
+-- The whole database (columns + rows + cells + views) is also kept as one
+-- JSONB snapshot for older clients. Conflicts are resolved per column, row,
+-- view and cell in database_items / database_cells below.
 CREATE TABLE IF NOT EXISTS databases (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
@@ -180,6 +196,107 @@ CREATE INDEX IF NOT EXISTS idx_databases_user ON databases(user_id);
 CREATE INDEX IF NOT EXISTS idx_databases_uuid ON databases(uuid);
 CREATE INDEX IF NOT EXISTS idx_databases_updated ON databases(user_id, updated_at DESC);
 
+-- Granular database sync: columns, rows and views, and cell values
+-- Each has its own hlc and change_seq; databases.snapshot is rebuilt from
+-- them for older clients, see src/utils/database-items.ts
+CREATE TABLE IF NOT EXISTS database_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  database_uuid VARCHAR(36) NOT NULL,
+  kind VARCHAR(10) NOT NULL,
+  item_id VARCHAR(100) NOT NULL,
+  position DOUBLE PRECISION NOT NULL DEFAULT 0,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at BIGINT NOT NULL,
+  deleted_at BIGINT,
+  hlc TEXT COLLATE "C",
+  change_seq BIGINT,
+  UNIQUE(user_id, database_uuid, kind, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_database_items_change_seq ON database_items(user_id, change_seq);
+
+CREATE TABLE IF NOT EXISTS database_cells (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  database_uuid VARCHAR(36) NOT NULL,
+  row_id VARCHAR(100) NOT NULL,
+  column_id VARCHAR(100) NOT NULL,
+  value JSONB,
+  updated_at BIGINT NOT NULL,
+  deleted_at BIGINT,
+  hlc TEXT COLLATE "C",
+  change_seq BIGINT,
+  UNIQUE(user_id, database_uuid, row_id, column_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_database_cells_change_seq ON database_cells(user_id, change_seq);
+
+-- Note revisions (previous versions replaced by accepted content changes)
+-- Retention is enforced on write, see src/utils/revisions.ts
+CREATE TABLE IF NOT EXISTS note_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  note_uuid VARCHAR(36) NOT NULL,
+  name VARCHAR(500) NOT NULL,
+  path TEXT NOT NULL,
+  content TEXT,
+  content_hash VARCHAR(64),
+  device_id VARCHAR(255),
+  note_updated_at BIGINT NOT NULL,
+  created_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_revisions_note ON note_revisions(user_id, note_uuid, created_at DESC);
+
+-- Conflicts (concurrent edits that could not be merged automatically)
+-- The server version is preserved as a separate note (conflict_note_uuid)
+-- until a device resolves the conflict through /api/sync/conflicts.
+CREATE TABLE IF NOT EXISTS conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  note_uuid VARCHAR(36) NOT NULL,
+  conflict_note_uuid VARCHAR(36),
+  reason VARCHAR(50) NOT NULL,
+  server_device_id VARCHAR(255),
+  client_device_id VARCHAR(255),
+  server_content_hash VARCHAR(64),
+  client_content_hash VARCHAR(64),
+  server_updated_at BIGINT,
+  client_updated_at BIGINT,
+  created_at BIGINT NOT NULL,
+  resolved_at BIGINT,
+  resolution VARCHAR(20),
+  resolved_by_device VARCHAR(255)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conflicts_user ON conflicts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_conflicts_note ON conflicts(user_id, note_uuid);
+
+-- Push idempotency (batch responses and applied entity operations)
+-- Pruned after PUSH_IDEMPOTENCY_RETENTION_HOURS, see src/utils/idempotency.ts
+CREATE TABLE IF NOT EXISTS push_batches (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  batch_id VARCHAR(100) NOT NULL,
+  device_id VARCHAR(255) NOT NULL,
+  response JSONB,
+  created_at BIGINT NOT NULL,
+  PRIMARY KEY (user_id, batch_id)
+);
+
+CREATE TABLE IF NOT EXISTS push_operations (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  op_id VARCHAR(100) NOT NULL,
+  batch_id VARCHAR(100),
+  entity_type VARCHAR(50) NOT NULL,
+  entity_id VARCHAR(500) NOT NULL,
+  created_at BIGINT NOT NULL,
+  PRIMARY KEY (user_id, op_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_batches_created ON push_batches(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_push_operations_created ON push_operations(user_id, created_at);
+
 -- Sync log (for tracking changes)
 CREATE TABLE IF NOT EXISTS sync_log (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -346,6 +463,266 @@ async function migrate() {
       console.log('✅ last_modified_by_device column already exists in notes');
     }
 
+    // Migration: server-assigned change sequence for cursor-based pull
+    console.log('🔄 Checking for change_seq columns...');
+    const checkChangeSeq = await pool.query(`
+      SELECT column_name
+      FROM information_schema.columns
+      WHERE table_name='users' AND column_name='change_seq'
+    `);
+
+    if (checkChangeSeq.rows.length === 0) {
+      console.log('📝 Adding change_seq columns and backfilling existing rows...');
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        await client.query('ALTER TABLE users ADD COLUMN change_seq BIGINT NOT NULL DEFAULT 0');
+        await client.query('CREATE TEMP SEQUENCE change_seq_backfill');
+
+        // Existing rows get distinct, positive sequence numbers so a fresh
+        // device (cursor 0) still receives them
+        for (const table of ['notes', 'folders', 'calendar_events', 'databases', 'attachments', 'sync_log']) {
+          await client.query(`ALTER TABLE ${table} ADD COLUMN change_seq BIGINT`);
+          await client.query(`UPDATE ${table} SET change_seq = nextval('change_seq_backfill')`);
+          await client.query(`CREATE INDEX IF NOT EXISTS idx_${table}_change_seq ON ${table}(user_id, change_seq)`);
+        }
+
+        await client.query(`
+          UPDATE users u SET change_seq = COALESCE((
+            SELECT MAX(seq) FROM (
+              SELECT MAX(change_seq) AS seq FROM notes WHERE user_id = u.id
+              UNION ALL SELECT MAX(change_seq) FROM folders WHERE user_id = u.id
+              UNION ALL SELECT MAX(change_seq) FROM calendar_events WHERE user_id = u.id
+              UNION ALL SELECT MAX(change_seq) FROM databases WHERE user_id = u.id
+              UNION ALL SELECT MAX(change_seq) FROM attachments WHERE user_id = u.id
+              UNION ALL SELECT MAX(change_seq) FROM sync_log WHERE user_id = u.id
+            ) per_table
+          ), 0)
+        `);
+        await client.query('COMMIT');
+        console.log('✅ change_seq columns added successfully');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    } else {
+      console.log('✅ change_seq columns already exist');
+    }
+
+    // Migration: hybrid logical clock stamps for last-write-wins ordering
+    // Existing rows are stamped from updated_at, matching the previous comparisons
+    console.log('🔄 Checking for hlc columns...');
+    for (const table of ['notes', 'folders', 'calendar_events', 'databases']) {
+      const checkHlc = await pool.query(`
+        SELECT column_name
+        FROM information_schema.columns
+        WHERE table_name = $1 AND column_name = 'hlc'
+      `, [table]);
+
+      if (checkHlc.rows.length === 0) {
+        console.log(`📝 Adding hlc column to ${table} table...`);
+        await pool.query(`ALTER TABLE ${table} ADD COLUMN hlc TEXT COLLATE "C"`);
+        await pool.query(`UPDATE ${table} SET hlc = lpad(updated_at::text, 15, '0') || ':000000:migration'`);
+        console.log(`✅ hlc column added successfully to ${table}`);
+      } else {
+        console.log(`✅ hlc column already exists in ${table}`);
+      }
+    }
+
+    // Migration: per-field HLC stamps so concurrent metadata edits merge field by field
+    console.log('🔄 Checking for field_hlcs columns...');
+    for (const table of ['notes', 'folders']) {
+      const checkFieldHlcs = await pool.query(`
+        SELECT column_name
+        FROM information_schema.columns
+        WHERE table_name = $1 AND column_name = 'field_hlcs'
+      `, [table]);
+
+      if (checkFieldHlcs.rows.length === 0) {
+        console.log(`📝 Adding field_hlcs column to ${table} table...`);
+        await pool.query(`ALTER TABLE ${table} ADD COLUMN field_hlcs JSONB NOT NULL DEFAULT '{}'::jsonb`);
+        console.log(`✅ field_hlcs column added successfully to ${table}`);
+      } else {
+        console.log(`✅ field_hlcs column already exists in ${table}`);
+      }
+    }
+
+    // Migration: trash metadata and tombstone compaction horizon
+    console.log('🔄 Checking for trash columns...');
+    for (const table of ['notes', 'folders', 'calendar_events', 'databases']) {
+      const checkTrash = await pool.query(`
+        SELECT column_name
+        FROM information_schema.columns
+        WHERE table_name = $1 AND column_name = 'purged_at'
+      `, [table]);
+
+      if (checkTrash.rows.length === 0) {
+        console.log(`📝 Adding trash columns to ${table} table...`);
+        await pool.query(`ALTER TABLE ${table} ADD COLUMN deleted_by_device VARCHAR(255)`);
+        await pool.query(`ALTER TABLE ${table} ADD COLUMN purged_at BIGINT`);
+        console.log(`✅ Trash columns added successfully to ${table}`);
+      } else {
+        console.log(`✅ Trash columns already exist in ${table}`);
+      }
+    }
+
+    const checkCompactedSeq = await pool.query(`
+      SELECT column_name
+      FROM information_schema.columns
+      WHERE table_name='users' AND column_name='compacted_seq'
+    `);
+
+    if (checkCompactedSeq.rows.length === 0) {
+      console.log('📝 Adding compacted_seq column to users table...');
+      await pool.query('ALTER TABLE users ADD COLUMN compacted_seq BIGINT NOT NULL DEFAULT 0');
+      console.log('✅ compacted_seq column added successfully');
+    } else {
+      console.log('✅ compacted_seq column already exists');
+    }
+
+    // Migration: selective sync settings per device
+    console.log('🔄 Checking for device sync scope columns...');
+    const deviceScopeColumns: Array<[string, string]> = [
+      ['sync_include_folders', `TEXT[] NOT NULL DEFAULT '{}'`],
+      ['sync_exclude_folders', `TEXT[] NOT NULL DEFAULT '{}'`],
+      ['max_attachment_size', 'BIGINT'],
+    ];
+    for (const [column, definition] of deviceScopeColumns) {
+      const checkScope = await pool.query(`
+        SELECT column_name
+        FROM information_schema.columns
+        WHERE table_name = 'devices' AND column_name = $1
+      `, [column]);
+
+      if (checkScope.rows.length === 0) {
+        console.log(`📝 Adding ${column} column to devices table...`);
+        await pool.query(`ALTER TABLE devices ADD COLUMN ${column} ${definition}`);
+        console.log(`✅ ${column} column added successfully`);
+      } else {
+        console.log(`✅ ${column} column already exists in devices`);
+      }
+    }
+
+    // Migration: per-key settings stamps and the change_seq of the last settings change
+    console.log('🔄 Checking for settings sync columns...');
+    const checkSettingsSeq = await pool.query(`
+      SELECT column_name
+      FROM information_schema.columns
+      WHERE table_name='users' AND column_name='settings_seq'
+    `);
+
+    if (checkSettingsSeq.rows.length === 0) {
+      console.log('📝 Adding settings sync columns...');
+      await pool.query(`ALTER TABLE users ADD COLUMN settings_hlcs JSONB NOT NULL DEFAULT '{}'::jsonb`);
+      await pool.query('ALTER TABLE users ADD COLUMN settings_seq BIGINT NOT NULL DEFAULT 0');
+      // Existing settings get a sequence number so devices pull them once
+      await pool.query(`
+        UPDATE users
+        SET change_seq = change_seq + 1, settings_seq = change_seq + 1
+        WHERE settings IS NOT NULL AND settings <> '{}'::jsonb
+      `);
+      await pool.query(`ALTER TABLE devices ADD COLUMN settings_overrides JSONB NOT NULL DEFAULT '{}'::jsonb`);
+      await pool.query('ALTER TABLE devices ADD COLUMN settings_overrides_seq BIGINT NOT NULL DEFAULT 0');
+      console.log('✅ Settings sync columns added successfully');
+    } else {
+      console.log('✅ Settings sync columns already exist');
+    }
+
+    // Migration: per-device sync diagnostics (GET /api/sync/status)
+    console.log('🔄 Checking for device sync status columns...');
+    const deviceStatusColumns: Array<[string, string]> = [
+      ['last_pull_at', 'BIGINT'],
+      ['last_pull_seq', 'BIGINT'],
+      ['last_pull_bootstrap_seq', 'BIGINT'],
+      ['last_push_at', 'BIGINT'],
+      ['clock_skew_ms', 'BIGINT'],
+      ['recent_rejections', `JSONB NOT NULL DEFAULT '[]'::jsonb`],
+      ['recent_conflicts', `JSONB NOT NULL DEFAULT '[]'::jsonb`],
+    ];
+    for (const [column, definition] of deviceStatusColumns) {
+      const checkStatus = await pool.query(`
+        SELECT column_name
+        FROM information_schema.columns
+        WHERE table_name = 'devices' AND column_name = $1
+      `, [column]);
+
+      if (checkStatus.rows.length === 0) {
+        console.log(`📝 Adding ${column} column to devices table...`);
+        await pool.query(`ALTER TABLE devices ADD COLUMN ${column} ${definition}`);
+        console.log(`✅ ${column} column added successfully`);
+      } else {
+        console.log(`✅ ${column} column already exists in devices`);
+      }
+    }
+
+    // Migration: change_seq that replaced each revision (base lookup for delta pulls)
+    console.log('🔄 Checking for replaced_at_seq column in note_revisions...');
+    const checkReplacedAtSeq = await pool.query(`
+      SELECT column_name
+      FROM information_schema.columns
+      WHERE table_name='note_revisions' AND column_name='replaced_at_seq'
+    `);
+
+    if (checkReplacedAtSeq.rows.length === 0) {
+      console.log('📝 Adding replaced_at_seq column to note_revisions table...');
+      await pool.query('ALTER TABLE note_revisions ADD COLUMN replaced_at_seq BIGINT');
+      await pool.query('CREATE INDEX IF NOT EXISTS idx_note_revisions_replaced ON note_revisions(user_id, note_uuid, replaced_at_seq)');
+      console.log('✅ replaced_at_seq column added successfully');
+    } else {
+      console.log('✅ replaced_at_seq column already exists');
+    }
+
+    // Migration: split existing database snapshots into per-item rows
+    // Items inherit the database's hlc and change_seq
+    console.log('🔄 Checking for databases without granular items...');
+    const unsplitDatabases = await pool.query(`
+      SELECT d.user_id, d.uuid, d.snapshot, d.updated_at, d.hlc, d.change_seq
+      FROM databases d
+      WHERE d.deleted_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM database_items i WHERE i.user_id = d.user_id AND i.database_uuid = d.uuid
+        )
+    `);
+    let splitCount = 0;
+    for (const row of unsplitDatabases.rows) {
+      if (!isGranularSnapshot(row.snapshot)) {
+        continue;
+      }
+      await applySnapshot(pool, row.user_id, row.uuid, row.snapshot, Number(row.updated_at), row.hlc, Number(row.change_seq));
+      splitCount++;
+    }
+    console.log(`✅ Split ${splitCount} database snapshot(s) into granular items`);
+
+    // Migration: canonical content hashes for notes stored before the server computed them
+    // Re-run after changing CONTENT_HASH_TRAILING_WHITESPACE
+    console.log('🔄 Checking note content hashes...');
+    let rehashedCount = 0;
+    let lastKey: { userId: string; uuid: string } | null = null;
+    for (;;) {
+      const batch: { rows: Array<{ user_id: string; uuid: string; content: string; content_hash: string | null }> } = await pool.query(`
+        SELECT user_id, uuid, content, content_hash
+        FROM notes
+        WHERE content IS NOT NULL AND ($1::uuid IS NULL OR (user_id, uuid) > ($1::uuid, $2::text))
+        ORDER BY user_id, uuid
+        LIMIT 500
+      `, [lastKey?.userId ?? null, lastKey?.uuid ?? null]);
+      if (batch.rows.length === 0) {
+        break;
+      }
+      for (const row of batch.rows) {
+        const canonicalHash = hashContent(row.content);
+        if (row.content_hash !== canonicalHash) {
+          await pool.query('UPDATE notes SET content_hash = $3 WHERE user_id = $1 AND uuid = $2', [row.user_id, row.uuid, canonicalHash]);
+          rehashedCount++;
+        }
+      }
+      const last = batch.rows[batch.rows.length - 1];
+      lastKey = { userId: last.user_id, uuid: last.uuid };
+    }
+    console.log(`✅ Recomputed ${rehashedCount} note content hash(es)`);
+
     console.log('✅ Database migrations completed successfully');
     process.exit(0);
   } catch (error) {
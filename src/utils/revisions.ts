@@ -0,0 +1,132 @@
+import { Pool, PoolClient } from 'pg';
+import { nextChangeSeq } from './change-seq';
+import { serverClock } from './hlc';
+import { hashContent } from './content-hash';
+
+/**
+ * Note revision history
+ *
+ * Every accepted content change keeps the previous version of the note in
+ * note_revisions. Retention is bounded per note by count and by age:
+ *   NOTE_REVISIONS_MAX_COUNT    - revisions kept per note (0 = unlimited)
+ *   NOTE_REVISIONS_MAX_AGE_DAYS - revisions older than this are pruned (0 = unlimited)
+ */
+
+type Queryable = Pool | PoolClient;
+
+const MAX_REVISIONS_PER_NOTE = parseInt(process.env.NOTE_REVISIONS_MAX_COUNT || '50');
+const MAX_REVISION_AGE_MS = parseInt(process.env.NOTE_REVISIONS_MAX_AGE_DAYS || '90') * 24 * 60 * 60 * 1000;
+
+export interface NoteVersion {
+  name: string;
+  path: string;
+  content: string | null;
+  content_hash: string | null;
+  last_modified_by_device: string | null;
+  updated_at: number | string;
+}
+
+/**
+ * Store the version of a note that is about to be replaced
+ * `replacedAtSeq` is the change_seq of the version replacing it.
+ */
+export async function recordRevision(db: Queryable, userId: string, noteUuid: string, previous: NoteVersion, replacedAtSeq: number | null = null): Promise<void> {
+  await db.query(
+    `INSERT INTO note_revisions (user_id, note_uuid, name, path, content, content_hash, device_id, note_updated_at, replaced_at_seq, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [
+      userId,
+      noteUuid,
+      previous.name,
+      previous.path,
+      previous.content,
+      previous.content_hash,
+      previous.last_modified_by_device,
+      Number(previous.updated_at),
+      replacedAtSeq,
+      Date.now(),
+    ]
+  );
+
+  await pruneRevisions(db, userId, noteUuid);
+}
+
+/**
+ * Content each note had at change sequence `seq`, for notes whose content has
+ * changed since: the first revision replaced after `seq`. Missing when that
+ * revision was pruned or predates replaced_at_seq tracking.
+ */
+export async function findContentAtSeq(
+  db: Queryable,
+  userId: string,
+  noteUuids: string[],
+  seq: number
+): Promise<Map<string, { content: string | null; content_hash: string | null }>> {
+  const result = await db.query(
+    `SELECT DISTINCT ON (note_uuid) note_uuid, content, content_hash
+     FROM note_revisions
+     WHERE user_id = $1 AND note_uuid = ANY($2) AND replaced_at_seq > $3
+     ORDER BY note_uuid, replaced_at_seq ASC`,
+    [userId, noteUuids, seq]
+  );
+  return new Map(result.rows.map(row => [row.note_uuid, { content: row.content, content_hash: row.content_hash }]));
+}
+
+/**
+ * Apply retention limits to a note's revisions
+ */
+export async function pruneRevisions(db: Queryable, userId: string, noteUuid: string): Promise<void> {
+  if (MAX_REVISION_AGE_MS > 0) {
+    await db.query(
+      `DELETE FROM note_revisions WHERE user_id = $1 AND note_uuid = $2 AND created_at < $3`,
+      [userId, noteUuid, Date.now() - MAX_REVISION_AGE_MS]
+    );
+  }
+
+  if (MAX_REVISIONS_PER_NOTE > 0) {
+    await db.query(
+      `DELETE FROM note_revisions
+       WHERE id IN (
+         SELECT id FROM note_revisions
+         WHERE user_id = $1 AND note_uuid = $2
+         ORDER BY created_at DESC, id DESC
+         OFFSET $3
+       )`,
+      [userId, noteUuid, MAX_REVISIONS_PER_NOTE]
+    );
+  }
+}
+
+/**
+ * Replace a note's content from the server side (restore, conflict resolution)
+ * The current version is kept as a revision and the note gets a new change_seq
+ * so every device pulls it. `current` must be the row locked by the caller.
+ * The content hash is recomputed, since stored hashes may predate canonical ones.
+ */
+export async function replaceNoteContent(
+  client: PoolClient,
+  userId: string,
+  noteUuid: string,
+  current: NoteVersion,
+  content: string | null,
+  deviceId: string
+) {
+  const seq = await nextChangeSeq(client, userId);
+  await recordRevision(client, userId, noteUuid, current, seq);
+
+  const result = await client.query(
+    `UPDATE notes
+     SET content = $3,
+         content_hash = $4,
+         updated_at = GREATEST($5, updated_at + 1),
+         last_modified_by_device = $6,
+         change_seq = $7,
+         hlc = $8
+     WHERE user_id = $1 AND uuid = $2
+     RETURNING uuid, name, path, folder, content, content_hash, updated_at, change_seq, hlc`,
+    [userId, noteUuid, content, content !== null ? hashContent(content) : null, Date.now(), deviceId, seq, serverClock.now()]
+  );
+
+  const note = result.rows[0];
+  return { ...note, updated_at: Number(note.updated_at), change_seq: Number(note.change_seq) };
+}
@@ -0,0 +1,195 @@
+import { Pool, PoolClient } from 'pg';
+import { z } from 'zod';
+import { nextChangeSeq } from './change-seq';
+import { serverClock } from './hlc';
+import { mergeFields, stampFields, unstampedFields, FieldHlcs, SETTINGS_FIELDS } from './field-merge';
+
+/**
+ * User settings sync
+ *
+ * users.settings is merged per key with last-write-wins on HLC stamps kept in
+ * users.settings_hlcs. Every accepted change takes a change_seq
+ * (users.settings_seq), so /pull returns the settings to devices whose cursor
+ * is older. A key set to null is removed.
+ *
+ * A device can override keys for itself (devices.settings_overrides, e.g. a
+ * different chatModel on a laptop). Overrides are plain values owned by that
+ * device; the effective settings layer them over the account settings.
+ */
+
+type Queryable = Pool | PoolClient;
+
+export const SettingsSchema = z.object({
+  openrouterApiKey: z.string().nullable().optional(),
+  chatModel: z.string().nullable().optional(),
+  embeddingModel: z.string().nullable().optional(),
+  braveApiKey: z.string().nullable().optional(),
+  allowVsCodeCopilotWrapper: z.boolean().nullable().optional(),
+});
+
+export type SettingsValues = z.infer<typeof SettingsSchema>;
+
+export interface SyncedSettings {
+  settings: Record<string, unknown>;
+  field_hlcs: FieldHlcs;
+  change_seq: number;
+}
+
+export interface SettingsMergeResult extends SyncedSettings {
+  accepted: string[];
+  rejected: string[];
+}
+
+export type SettingsSource = 'account' | 'device';
+
+export interface DeviceOverrides {
+  overrides: Record<string, unknown>;
+  change_seq: number;
+}
+
+/**
+ * Settings as seen by one device, with the layer each value came from
+ */
+export function layerSettings(account: Record<string, unknown>, overrides: Record<string, unknown> | null) {
+  const effective: Record<string, unknown> = { ...account };
+  const sources: Record<string, SettingsSource> = {};
+  for (const key of Object.keys(account)) {
+    sources[key] = 'account';
+  }
+  for (const [key, value] of Object.entries(overrides ?? {})) {
+    effective[key] = value;
+    sources[key] = 'device';
+  }
+  return { effective, sources };
+}
+
+export async function loadDeviceOverrides(db: Queryable, userId: string, deviceId: string): Promise<DeviceOverrides | null> {
+  const result = await db.query(
+    'SELECT settings_overrides, settings_overrides_seq FROM devices WHERE user_id = $1 AND device_id = $2',
+    [userId, deviceId]
+  );
+  if (result.rows.length === 0) {
+    return null;
+  }
+  return {
+    overrides: result.rows[0].settings_overrides ?? {},
+    change_seq: Number(result.rows[0].settings_overrides_seq),
+  };
+}
+
+/**
+ * Set or clear a device's overrides
+ * With `replace` the incoming keys become the whole override set; otherwise
+ * undefined keys are kept and null keys are removed. Call inside a transaction.
+ * Returns null when the device does not exist.
+ */
+export async function applyDeviceOverrides(
+  client: PoolClient,
+  userId: string,
+  deviceId: string,
+  incoming: SettingsValues,
+  replace: boolean
+): Promise<DeviceOverrides | null> {
+  const current = await client.query(
+    'SELECT settings_overrides, settings_overrides_seq FROM devices WHERE user_id = $1 AND device_id = $2 FOR UPDATE',
+    [userId, deviceId]
+  );
+  if (current.rows.length === 0) {
+    return null;
+  }
+
+  const stored: Record<string, unknown> = current.rows[0].settings_overrides ?? {};
+  const overrides: Record<string, unknown> = replace ? {} : { ...stored };
+  for (const [key, value] of Object.entries(incoming)) {
+    if (value === null || value === undefined) {
+      delete overrides[key];
+    } else {
+      overrides[key] = value;
+    }
+  }
+
+  if (JSON.stringify(overrides) === JSON.stringify(stored)) {
+    return { overrides, change_seq: Number(current.rows[0].settings_overrides_seq) };
+  }
+
+  const changeSeq = await nextChangeSeq(client, userId);
+  await client.query(
+    `UPDATE devices SET settings_overrides = $3, settings_overrides_seq = $4
+     WHERE user_id = $1 AND device_id = $2`,
+    [userId, deviceId, JSON.stringify(overrides), changeSeq]
+  );
+  return { overrides, change_seq: changeSeq };
+}
+
+function toSyncedSettings(row: any): SyncedSettings {
+  return {
+    settings: row.settings ?? {},
+    field_hlcs: row.settings_hlcs ?? {},
+    change_seq: Number(row.settings_seq),
+  };
+}
+
+export async function loadSettings(db: Queryable, userId: string): Promise<SyncedSettings | null> {
+  const result = await db.query('SELECT settings, settings_hlcs, settings_seq FROM users WHERE id = $1', [userId]);
+  return result.rows.length > 0 ? toSyncedSettings(result.rows[0]) : null;
+}
+
+/**
+ * Merge incoming settings into the user's settings, key by key
+ * Keys left undefined are untouched. `hlc` stamps every key the client did not
+ * stamp in `fieldHlcs`; without either, the server clock is used.
+ * Call inside a transaction. Returns null when the user does not exist.
+ */
+export async function applySettings(
+  client: PoolClient,
+  userId: string,
+  incoming: SettingsValues,
+  hlc?: string,
+  fieldHlcs?: FieldHlcs
+): Promise<SettingsMergeResult | null> {
+  const current = await client.query(
+    'SELECT settings, settings_hlcs, settings_seq FROM users WHERE id = $1 FOR UPDATE',
+    [userId]
+  );
+  if (current.rows.length === 0) {
+    return null;
+  }
+
+  const stored = toSyncedSettings(current.rows[0]);
+  const entityHlc = (hlc && serverClock.receive(hlc)) || serverClock.now();
+  const merge = mergeFields(
+    SETTINGS_FIELDS,
+    stored.settings,
+    stored.field_hlcs,
+    incoming,
+    stampFields(SETTINGS_FIELDS, fieldHlcs, entityHlc),
+    // A full PUT resends keys the device never touched; those keep their stamps
+    unstampedFields(SETTINGS_FIELDS, fieldHlcs)
+  );
+
+  // Keys outside SETTINGS_FIELDS written by older versions are kept as they are
+  const settings: Record<string, unknown> = { ...stored.settings };
+  for (const [key, value] of Object.entries(merge.values)) {
+    if (value === null || value === undefined) {
+      delete settings[key];
+    } else {
+      settings[key] = value;
+    }
+  }
+
+  const changeSeq = merge.accepted.length > 0 ? await nextChangeSeq(client, userId) : stored.change_seq;
+  await client.query(
+    `UPDATE users
+     SET settings = $2, settings_hlcs = $3, settings_seq = $4, updated_at = NOW()
+     WHERE id = $1`,
+    [userId, JSON.stringify(settings), JSON.stringify(merge.fieldHlcs), changeSeq]
+  );
+
+  return {
+    settings,
+    field_hlcs: merge.fieldHlcs,
+    change_seq: changeSeq,
+    accepted: merge.accepted,
+    rejected: merge.rejected,
+  };
+}
@@ -0,0 +1,132 @@
+import { layerSettings } from './settings-sync';
+
+/**
+ * JSON shapes of synced rows, shared by /pull and the bootstrap snapshot
+ * BIGINT columns come back from pg as strings and are converted to numbers.
+ */
+
+export function notePath(row: any): string {
+  return row.path || `${row.folder ? row.folder + '/' : ''}${row.name}.md`;
+}
+
+export function noteToJson(row: any) {
+  return {
+    ...row,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+    deleted_at: row.deleted_at ? Number(row.deleted_at) : null,
+    change_seq: Number(row.change_seq),
+    // Ensure content is never undefined - use empty string if null
+    content: row.content !== null && row.content !== undefined ? row.content : '',
+    // Ensure path is never null - construct from name if missing
+    path: notePath(row),
+  };
+}
+
+export function folderToJson(row: any) {
+  return {
+    ...row,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+    deleted_at: row.deleted_at ? Number(row.deleted_at) : null,
+    change_seq: Number(row.change_seq),
+  };
+}
+
+export function calendarEventToJson(row: any) {
+  return {
+    ...row,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+    deleted_at: row.deleted_at ? Number(row.deleted_at) : null,
+    change_seq: Number(row.change_seq),
+    start_time: Number(row.start_time),
+    end_time: Number(row.end_time),
+    recurrence_end: row.recurrence_end ? Number(row.recurrence_end) : null,
+  };
+}
+
+export function databaseToJson(row: any) {
+  return {
+    uuid: row.uuid,
+    name: row.name,
+    icon: row.icon,
+    snapshot: row.snapshot,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+    deleted_at: row.deleted_at ? Number(row.deleted_at) : null,
+    change_seq: Number(row.change_seq),
+    hlc: row.hlc,
+  };
+}
+
+export function databaseItemToJson(row: any) {
+  return {
+    database_uuid: row.database_uuid,
+    kind: row.kind,
+    id: row.item_id,
+    position: Number(row.position),
+    data: row.data,
+    updated_at: Number(row.updated_at),
+    deleted_at: row.deleted_at ? Number(row.deleted_at) : null,
+    change_seq: Number(row.change_seq),
+    hlc: row.hlc,
+  };
+}
+
+export function databaseCellToJson(row: any) {
+  return {
+    database_uuid: row.database_uuid,
+    row_id: row.row_id,
+    column_id: row.column_id,
+    value: row.value,
+    updated_at: Number(row.updated_at),
+    deleted_at: row.deleted_at ? Number(row.deleted_at) : null,
+    change_seq: Number(row.change_seq),
+    hlc: row.hlc,
+  };
+}
+
+export function attachmentToJson(row: any) {
+  return {
+    id: row.id,
+    note_uuid: row.note_uuid,
+    file_name: row.file_name,
+    file_hash: row.file_hash,
+    file_size: Number(row.file_size),
+    mime_type: row.mime_type,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+    deleted_at: row.deleted_at ? Number(row.deleted_at) : null,
+    change_seq: Number(row.change_seq),
+  };
+}
+
+/**
+ * Tombstone for an attachment whose row was removed, built from its sync_log entry
+ */
+export function attachmentPurgeToJson(row: any) {
+  return {
+    id: row.entity_id,
+    note_uuid: row.data_json?.noteUuid ?? null,
+    deleted_at: Number(row.data_json?.deletedAt ?? row.timestamp),
+    change_seq: Number(row.change_seq),
+    purged: true,
+  };
+}
+
+/**
+ * Account settings plus, when the row carries them, the device's overrides
+ * and the effective values for that device
+ */
+export function settingsToJson(row: any) {
+  const values = row.settings ?? {};
+  const overrides = row.settings_overrides ?? {};
+  return {
+    values,
+    field_hlcs: row.settings_hlcs ?? {},
+    change_seq: Number(row.settings_seq),
+    overrides,
+    ...layerSettings(values, overrides),
+  };
+}
@@ -0,0 +1,70 @@
+import { Pool, PoolClient } from 'pg';
+
+/**
+ * Selective sync
+ *
+ * A device can limit what it pulls to a set of folders (includeFolders, empty =
+ * all), skip folders (excludeFolders, wins over includes) and skip attachments
+ * above maxAttachmentSize bytes. Notes at the vault root are always synced, and
+ * the parents of included folders are kept so the tree stays navigable.
+ */
+
+type Queryable = Pool | PoolClient;
+
+export interface SyncScope {
+  includeFolders: string[];
+  excludeFolders: string[];
+  maxAttachmentSize: number | null;
+}
+
+/**
+ * Sync settings of a device; null when the device syncs everything
+ */
+export async function loadSyncScope(db: Queryable, userId: string, deviceId: string | undefined): Promise<SyncScope | null> {
+  if (!deviceId) {
+    return null;
+  }
+
+  const result = await db.query(
+    `SELECT sync_include_folders, sync_exclude_folders, max_attachment_size
+     FROM devices
+     WHERE user_id = $1 AND device_id = $2`,
+    [userId, deviceId]
+  );
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  const scope: SyncScope = {
+    includeFolders: row.sync_include_folders ?? [],
+    excludeFolders: row.sync_exclude_folders ?? [],
+    maxAttachmentSize: row.max_attachment_size !== null ? Number(row.max_attachment_size) : null,
+  };
+  const unrestricted = scope.includeFolders.length === 0 && scope.excludeFolders.length === 0 && scope.maxAttachmentSize === null;
+  return unrestricted ? null : scope;
+}
+
+function isWithin(path: string, folder: string): boolean {
+  return path === folder || path.startsWith(`${folder}/`);
+}
+
+export function folderInScope(scope: SyncScope | null, path: string): boolean {
+  if (!scope) return true;
+  if (scope.excludeFolders.some(folder => isWithin(path, folder))) return false;
+  return scope.includeFolders.length === 0
+    || scope.includeFolders.some(folder => isWithin(path, folder) || isWithin(folder, path));
+}
+
+export function notePathInScope(scope: SyncScope | null, notePath: string): boolean {
+  if (!scope) return true;
+  const slash = notePath.lastIndexOf('/');
+  if (slash === -1) return true;
+  const folder = notePath.slice(0, slash);
+  if (scope.excludeFolders.some(excluded => isWithin(folder, excluded))) return false;
+  return scope.includeFolders.length === 0 || scope.includeFolders.some(included => isWithin(folder, included));
+}
+
+export function attachmentInScope(scope: SyncScope | null, fileSize: number): boolean {
+  return !scope || scope.maxAttachmentSize === null || fileSize <= scope.maxAttachmentSize;
+}
@@ -0,0 +1,269 @@
+/**
+ * Line-based text diff (Myers O(ND) algorithm, linear-space variant)
+ * Used for revision diffs and three-way merges of note content.
+ */
+
+export type DiffOp =
+  | { type: 'equal'; lines: string[] }
+  | { type: 'insert'; lines: string[] }
+  | { type: 'delete'; lines: string[] };
+
+/**
+ * Split text into lines, keeping CRLF/LF intact as part of the content
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  return text.split('\n');
+}
+
+type DiffStep = { type: DiffOp['type']; line: string };
+
+/**
+ * Compute the shortest edit script turning `a` into `b`
+ * Consecutive operations of the same type are grouped.
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  const steps: DiffStep[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, steps);
+
+  const ops: DiffOp[] = [];
+  for (const step of steps) {
+    const last = ops[ops.length - 1];
+    if (last && last.type === step.type) {
+      last.lines.push(step.line);
+    } else {
+      ops.push({ type: step.type, lines: [step.line] } as DiffOp);
+    }
+  }
+  return ops;
+}
+
+/**
+ * Diff a[aLo, aHi) against b[bLo, bHi), appending the steps in order
+ * Splits at the middle snake and recurses, so only O(N + M) memory is live
+ * at any time instead of one path vector per edit step.
+ */
+function diffRange(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number, steps: DiffStep[]): void {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    steps.push({ type: 'equal', line: a[aLo] });
+    aLo++;
+    bLo++;
+  }
+  let suffix = 0;
+  while (aLo < aHi - suffix && bLo < bHi - suffix && a[aHi - 1 - suffix] === b[bHi - 1 - suffix]) {
+    suffix++;
+  }
+  aHi -= suffix;
+  bHi -= suffix;
+
+  const split = aLo < aHi && bLo < bHi ? middleSnake(a, aLo, aHi, b, bLo, bHi) : null;
+  if (split) {
+    diffRange(a, aLo, split[0], b, bLo, split[1], steps);
+    diffRange(a, split[0], aHi, b, split[1], bHi, steps);
+  } else {
+    for (let i = aLo; i < aHi; i++) {
+      steps.push({ type: 'delete', line: a[i] });
+    }
+    for (let j = bLo; j < bHi; j++) {
+      steps.push({ type: 'insert', line: b[j] });
+    }
+  }
+
+  for (let i = aHi; i < aHi + suffix; i++) {
+    steps.push({ type: 'equal', line: a[i] });
+  }
+}
+
+/**
+ * Point where the forward and reverse furthest-reaching paths of a range meet
+ * Both halves around it have about half the edit distance. Returns null when
+ * the ranges have no line in common.
+ */
+function middleSnake(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number): [number, number] | null {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const length = 2 * maxD;
+  const forward = new Int32Array(length).fill(-1);
+  const reverse = new Int32Array(length).fill(-1);
+  forward[offset + 1] = 0;
+  reverse[offset + 1] = 0;
+
+  const delta = n - m;
+  // With an odd delta the paths meet on a forward step, otherwise on a reverse one
+  const checkForward = delta % 2 !== 0;
+  // Diagonals that ran off the edit grid are skipped
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let reverseStart = 0;
+  let reverseEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && forward[index - 1] < forward[index + 1]) ? forward[index + 1] : forward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[index] = x;
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (checkForward) {
+        const reverseIndex = offset + delta - k;
+        if (reverseIndex >= 0 && reverseIndex < length && reverse[reverseIndex] !== -1 && x >= n - reverse[reverseIndex]) {
+          return [aLo + x, bLo + y];
+        }
+      }
+    }
+
+    for (let k = -d + reverseStart; k <= d - reverseEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && reverse[index - 1] < reverse[index + 1]) ? reverse[index + 1] : reverse[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x++;
+        y++;
+      }
+      reverse[index] = x;
+      if (x > n) {
+        reverseEnd += 2;
+      } else if (y > m) {
+        reverseStart += 2;
+      } else if (!checkForward) {
+        const forwardIndex = offset + delta - k;
+        if (forwardIndex >= 0 && forwardIndex < length && forward[forwardIndex] !== -1) {
+          const forwardX = forward[forwardIndex];
+          const forwardY = forwardX - (forwardIndex - offset);
+          if (forwardX >= n - x) {
+            return [aLo + forwardX, bLo + forwardY];
+          }
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Summarize a diff as added/removed line counts
+ */
+export function diffStats(ops: DiffOp[]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const op of ops) {
+    if (op.type === 'insert') added += op.lines.length;
+    if (op.type === 'delete') removed += op.lines.length;
+  }
+  return { added, removed };
+}
+
+interface Hunk {
+  side: 'ours' | 'theirs';
+  start: number; // first base line replaced
+  end: number;   // base line after the replaced range
+  lines: string[];
+}
+
+function toHunks(base: string[], side: string[], tag: Hunk['side']): Hunk[] {
+  const hunks: Hunk[] = [];
+  let i = 0;
+  let current: Hunk | null = null;
+
+  for (const op of diffLines(base, side)) {
+    if (op.type === 'equal') {
+      current = null;
+      i += op.lines.length;
+      continue;
+    }
+    if (!current) {
+      current = { side: tag, start: i, end: i, lines: [] };
+      hunks.push(current);
+    }
+    if (op.type === 'delete') {
+      i += op.lines.length;
+      current.end = i;
+    } else {
+      current.lines.push(...op.lines);
+    }
+  }
+  return hunks;
+}
+
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const out: string[] = [];
+  let i = start;
+  for (const hunk of hunks) {
+    out.push(...base.slice(i, hunk.start), ...hunk.lines);
+    i = hunk.end;
+  }
+  out.push(...base.slice(i, end));
+  return out;
+}
+
+export interface MergeResult {
+  clean: boolean;
+  lines: string[];
+  conflicts: number;
+}
+
+/**
+ * Line-based three-way merge of two descendants of a common base
+ * Changes that touch the same or adjacent base lines are conflicts unless
+ * both sides made the identical change. On conflict, `lines` holds `ours`.
+ */
+export function merge3(base: string[], ours: string[], theirs: string[]): MergeResult {
+  const hunks = [...toHunks(base, ours, 'ours'), ...toHunks(base, theirs, 'theirs')]
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let h = 0;
+
+  while (h < hunks.length) {
+    // Group hunks whose base ranges overlap or touch
+    const group = [hunks[h]];
+    const start = hunks[h].start;
+    let end = hunks[h].end;
+    h++;
+    while (h < hunks.length && hunks[h].start <= end) {
+      group.push(hunks[h]);
+      end = Math.max(end, hunks[h].end);
+      h++;
+    }
+
+    out.push(...base.slice(i, start));
+    i = end;
+
+    const oursHunks = group.filter(g => g.side === 'ours');
+    const theirsHunks = group.filter(g => g.side === 'theirs');
+    const oursRegion = applyHunks(base, start, end, oursHunks);
+
+    if (theirsHunks.length === 0) {
+      out.push(...oursRegion);
+      continue;
+    }
+
+    const theirsRegion = applyHunks(base, start, end, theirsHunks);
+    if (oursHunks.length === 0 || oursRegion.join('\n') === theirsRegion.join('\n')) {
+      out.push(...theirsRegion);
+      continue;
+    }
+
+    conflicts++;
+    out.push(...oursRegion);
+  }
+
+  out.push(...base.slice(i));
+
+  return conflicts === 0
+    ? { clean: true, lines: out, conflicts: 0 }
+    : { clean: false, lines: ours, conflicts };
+}
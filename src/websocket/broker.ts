@@ -0,0 +1,145 @@
+import { Pool, PoolClient, Notification } from 'pg';
+import type { DevicePresence } from './presence';
+
+/**
+ * Fan-out of sync notifications between server instances
+ *
+ * Each instance delivers its own notifications to the devices connected to it
+ * and publishes them through the broker; the other instances deliver them to
+ * theirs. Without a broker, a single instance only reaches its own devices.
+ */
+
+export interface SyncBrokerMessage {
+  // Absent in messages from instances that predate presence
+  kind?: 'sync';
+  instanceId: string;
+  userId: string;
+  notification: Record<string, unknown>;
+}
+
+export interface PresenceBrokerMessage {
+  kind: 'presence';
+  instanceId: string;
+  userId: string;
+  presence: DevicePresence;
+}
+
+export type BrokerMessage = SyncBrokerMessage | PresenceBrokerMessage;
+
+export interface NotificationBroker {
+  publish(message: BrokerMessage): Promise<void>;
+  subscribe(handler: (message: BrokerMessage) => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+const CHANNEL = 'sync_notify';
+// NOTIFY payloads must be shorter than 8000 bytes
+const MAX_PAYLOAD_BYTES = 7900;
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Broker on Postgres LISTEN/NOTIFY
+ * Listens on one pooled connection held for the life of the process and
+ * reconnects when it drops. Notifications published meanwhile are lost for
+ * this instance; devices that reconnect find the gap in the replay and pull.
+ */
+export class PostgresNotificationBroker implements NotificationBroker {
+  private listener?: PoolClient;
+  private handler?: (message: BrokerMessage) => void;
+  private reconnectTimer?: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(private pool: Pool) {}
+
+  async publish(message: BrokerMessage): Promise<void> {
+    let payload = JSON.stringify(message);
+    if (message.kind !== 'presence' && Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+      // Too many changes to carry: other instances only announce the types
+      const { changes, baseSeq, baseCursor, ...rest } = message.notification;
+      payload = JSON.stringify({ ...message, notification: { ...rest, changes: [], truncated: true } });
+    }
+    await this.pool.query('SELECT pg_notify($1, $2)', [CHANNEL, payload]);
+  }
+
+  async subscribe(handler: (message: BrokerMessage) => void): Promise<void> {
+    this.handler = handler;
+    try {
+      await this.listen();
+    } catch (error) {
+      console.error('❌ Could not start notification listener:', error);
+      this.scheduleRetry();
+    }
+  }
+
+  private async listen(): Promise<void> {
+    const client = await this.pool.connect();
+    client.on('notification', (msg: Notification) => this.handleNotification(msg));
+    client.on('error', (error) => {
+      console.error('❌ Notification listener error:', error);
+      if (this.listener === client) {
+        this.reconnect(client);
+      }
+    });
+
+    try {
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      client.release(true);
+      throw error;
+    }
+    this.listener = client;
+    console.log(`📡 Listening for sync notifications on channel ${CHANNEL}`);
+  }
+
+  private handleNotification(msg: Notification): void {
+    if (msg.channel !== CHANNEL || !msg.payload || !this.handler) {
+      return;
+    }
+    try {
+      this.handler(JSON.parse(msg.payload));
+    } catch (error) {
+      console.error('❌ Invalid sync notification payload:', error);
+    }
+  }
+
+  private reconnect(client: PoolClient): void {
+    this.listener = undefined;
+    // Destroy the broken connection instead of returning it to the pool
+    client.release(true);
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry(): void {
+    if (this.closed || this.reconnectTimer) {
+      return;
+    }
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined;
+      try {
+        await this.listen();
+      } catch (error) {
+        console.error('❌ Could not restore notification listener:', error);
+        this.scheduleRetry();
+      }
+    }, RECONNECT_DELAY_MS);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    if (this.listener) {
+      const client = this.listener;
+      this.listener = undefined;
+      try {
+        await client.query(`UNLISTEN ${CHANNEL}`);
+        client.release();
+      } catch (error) {
+        // The connection already failed; destroy it instead of returning it to the pool
+        console.error('❌ Error closing notification listener:', error);
+        client.release(true);
+      }
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Recent sync:notify payloads per user, replayed to devices that reconnect
+ *
+ * Kept in memory only: after a restart, or once a device has been away longer
+ * than the history reaches, the replay is incomplete and the device pulls.
+ */
+
+export interface ReplayableNotification {
+  timestamp: number;
+  seq?: number;
+  baseSeq?: number;
+}
+
+export interface ReplayResult<T> {
+  notifications: T[];
+  // The notifications cover every change between the cursor and the head
+  complete: boolean;
+}
+
+export class NotificationHistory<T extends ReplayableNotification> {
+  private entries: Map<string, T[]> = new Map(); // userId -> notifications ordered by seq
+
+  constructor(private maxEntries: number, private maxAgeMs: number) {}
+
+  /**
+   * Keep a notification; ones without a change sequence cannot be placed and are skipped
+   */
+  record(userId: string, notification: T): void {
+    if (notification.seq === undefined) {
+      return;
+    }
+
+    const list = this.entries.get(userId) ?? [];
+    // Writers commit in seq order but may notify out of order
+    let index = list.length;
+    while (index > 0 && list[index - 1].seq! > notification.seq) {
+      index--;
+    }
+    list.splice(index, 0, notification);
+    this.entries.set(userId, list);
+    this.prune(userId);
+  }
+
+  /**
+   * Notifications after `cursorSeq`, and whether they chain without gaps up to `headSeq`
+   */
+  since(userId: string, cursorSeq: number, headSeq: number): ReplayResult<T> {
+    this.prune(userId);
+    const missed = (this.entries.get(userId) ?? []).filter(notification => notification.seq! > cursorSeq);
+
+    let covered = cursorSeq;
+    for (const notification of missed) {
+      if (notification.baseSeq === undefined || notification.baseSeq > covered) {
+        return { notifications: missed, complete: false };
+      }
+      covered = Math.max(covered, notification.seq!);
+    }
+    return { notifications: missed, complete: covered >= headSeq };
+  }
+
+  /**
+   * Drop expired notifications of every user
+   */
+  pruneAll(): void {
+    for (const userId of [...this.entries.keys()]) {
+      this.prune(userId);
+    }
+  }
+
+  private prune(userId: string): void {
+    const list = this.entries.get(userId);
+    if (!list) {
+      return;
+    }
+
+    const oldest = Date.now() - this.maxAgeMs;
+    const kept = list.filter(notification => notification.timestamp >= oldest).slice(-this.maxEntries);
+    if (kept.length === 0) {
+      this.entries.delete(userId);
+    } else {
+      this.entries.set(userId, kept);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import type { WebSocketSyncServer, DeviceConnection, SyncNotification } from './server';
+
+export type { SyncChange, SyncEntityType, SyncChangeOp, SyncNotification } from './server';
+
+/**
+ * Shared handle to the WebSocket server so any route can tell a user's other
+ * devices that new data is available to pull
+ */
+let wsServer: WebSocketSyncServer | null = null;
+
+export function setWebSocketServer(ws: WebSocketSyncServer) {
+  wsServer = ws;
+}
+
+export function notifySyncAvailable(userId: string, excludeDeviceId: string, data?: SyncNotification): void {
+  if (wsServer) {
+    wsServer.notifySyncAvailable(userId, excludeDeviceId, data);
+  }
+}
+
+export function getDeviceConnections(userId: string): DeviceConnection[] {
+  return wsServer ? wsServer.getConnections(userId) : [];
+}
@@ -0,0 +1,98 @@
+/**
+ * Device presence: which of a user's devices are online and which note each
+ * one has open
+ *
+ * Devices connected to this instance carry their presence on the socket.
+ * Devices on other instances are known from broker messages; those instances
+ * refresh them on every heartbeat, and entries that are not refreshed in time
+ * (the instance went away) expire.
+ */
+
+export type PresenceState = 'viewing' | 'editing';
+
+export interface DevicePresence {
+  deviceId: string;
+  online: boolean;
+  noteUuid: string | null;
+  state: PresenceState | null;
+  updatedAt: number;
+}
+
+/**
+ * Validate a presence:update message from a device
+ * Returns null when it is malformed. Without a note the state is cleared.
+ */
+export function parsePresenceUpdate(data: any): { noteUuid: string | null; state: PresenceState | null } | null {
+  const noteUuid = data?.noteUuid ?? null;
+  const state = data?.state ?? null;
+  if (noteUuid !== null && (typeof noteUuid !== 'string' || noteUuid.length === 0)) {
+    return null;
+  }
+  if (state !== null && state !== 'viewing' && state !== 'editing') {
+    return null;
+  }
+  return noteUuid === null ? { noteUuid: null, state: null } : { noteUuid, state: state ?? 'viewing' };
+}
+
+function samePresence(a: DevicePresence, b: DevicePresence): boolean {
+  return a.online === b.online && a.noteUuid === b.noteUuid && a.state === b.state;
+}
+
+interface RemoteEntry {
+  presence: DevicePresence;
+  expiresAt: number;
+}
+
+export class RemotePresence {
+  private entries: Map<string, Map<string, RemoteEntry>> = new Map(); // userId -> deviceId -> entry
+
+  constructor(private ttlMs: number) {}
+
+  /**
+   * Store a presence received from another instance
+   * Returns true when it differs from what was known, so devices need to hear about it.
+   */
+  apply(userId: string, presence: DevicePresence): boolean {
+    const devices = this.entries.get(userId) ?? new Map<string, RemoteEntry>();
+    const known = devices.get(presence.deviceId);
+
+    if (!presence.online) {
+      devices.delete(presence.deviceId);
+      if (devices.size === 0) {
+        this.entries.delete(userId);
+      }
+      return known !== undefined;
+    }
+
+    devices.set(presence.deviceId, { presence, expiresAt: Date.now() + this.ttlMs });
+    this.entries.set(userId, devices);
+    return !known || !samePresence(known.presence, presence);
+  }
+
+  list(userId: string): DevicePresence[] {
+    const now = Date.now();
+    return [...(this.entries.get(userId)?.values() ?? [])]
+      .filter(entry => entry.expiresAt > now)
+      .map(entry => entry.presence);
+  }
+
+  /**
+   * Drop entries that were not refreshed; returns them as offline presences by user
+   */
+  expire(): Map<string, DevicePresence[]> {
+    const now = Date.now();
+    const expired = new Map<string, DevicePresence[]>();
+    for (const [userId, devices] of this.entries) {
+      for (const [deviceId, entry] of devices) {
+        if (entry.expiresAt <= now) {
+          devices.delete(deviceId);
+          expired.set(userId, [...(expired.get(userId) ?? []), { ...entry.presence, online: false, noteUuid: null, state: null, updatedAt: now }]);
+        }
+      }
+      if (devices.size === 0) {
+        this.entries.delete(userId);
+      }
+    }
+    return expired;
+  }
+}
@@ -1,42 +1,198 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { IncomingMessage } from 'http';
+import { IncomingMessage, Server as HttpServer } from 'http';
+import { Duplex } from 'stream';
+import { randomUUID } from 'crypto';
 import jwt from 'jsonwebtoken';
+import { pool } from '../utils/db';
+import { currentChangeSeq, decodeCursor, encodeCursor, InvalidCursorError } from '../utils/change-seq';
+import { NotificationHistory } from './notification-history';
+import { NotificationBroker, BrokerMessage } from './broker';
+import { DevicePresence, PresenceState, RemotePresence, parsePresenceUpdate } from './presence';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+// Same origin policy as the REST API's CORS settings
+const ALLOWED_ORIGIN = process.env.CORS_ORIGIN || '*';
+
+// Larger notifications only carry the entity types; devices pull the rest
+const MAX_NOTIFY_CHANGES = parseInt(process.env.WS_NOTIFY_MAX_CHANGES || '100');
+
+// Notifications kept per user for devices that reconnect with a cursor
+const REPLAY_MAX_NOTIFICATIONS = parseInt(process.env.WS_REPLAY_MAX_NOTIFICATIONS || '200');
+const REPLAY_MAX_AGE_MS = parseInt(process.env.WS_REPLAY_MAX_AGE_HOURS || '24') * 60 * 60 * 1000;
+
+// Presence of devices on other instances, refreshed every heartbeat (30s)
+const REMOTE_PRESENCE_TTL_MS = 90000;
 
 interface AuthenticatedWebSocket extends WebSocket {
   userId?: string;
   deviceId?: string;
   isAlive?: boolean;
+  connectedAt?: number;
+  noteUuid?: string | null;
+  presenceState?: PresenceState | null;
+  presenceUpdatedAt?: number;
+}
+
+export interface DeviceConnection {
+  deviceId: string;
+  // Unknown for connections on other instances
+  connectedAt: number | null;
+  alive: boolean;
+  remote: boolean;
+}
+
+export type SyncEntityType =
+  | 'note'
+  | 'folder'
+  | 'folder_move'
+  | 'calendar_event'
+  | 'database'
+  | 'database_item'
+  | 'database_cell'
+  | 'attachment'
+  | 'settings'
+  | 'device_settings';
+
+export type SyncChangeOp = 'upsert' | 'delete' | 'move';
+
+/**
+ * One changed entity in a sync:notify message
+ * Database items and cells carry their database in `parentId`, attachments
+ * their note. Folder moves carry the old and new path.
+ */
+export interface SyncChange {
+  type: SyncEntityType;
+  id: string;
+  op: SyncChangeOp;
+  parentId?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * What a write changed, sent to the user's other devices
+ * `seq` is the head change_seq after the write committed. When `baseSeq` is
+ * set, `changes` are everything between it and `seq`: a device whose cursor is
+ * at `baseSeq` can apply them and continue from the notified cursor.
+ */
+export interface SyncNotification {
+  changes?: SyncChange[];
+  seq?: number;
+  baseSeq?: number;
+  [extra: string]: unknown;
+}
+
+/**
+ * Payload of a sync:notify message
+ */
+interface SyncNotifyData {
+  timestamp: number;
+  sourceDeviceId: string;
+  entityTypes: SyncEntityType[];
+  changes: SyncChange[];
+  truncated: boolean;
+  seq?: number;
+  cursor?: string;
+  baseSeq?: number;
+  baseCursor?: string;
+  [extra: string]: unknown;
 }
 
 interface WSMessage {
-  type: 'sync:notify' | 'heartbeat' | 'pong';
+  type: 'sync:notify' | 'sync:replay' | 'presence:update' | 'presence:snapshot' | 'presence:changed' | 'heartbeat' | 'pong';
   data?: any;
 }
 
+export interface WebSocketSyncServerOptions {
+  // Standalone listener on its own port
+  port?: number;
+  // Accept upgrades of an existing HTTP server at `path`
+  server?: HttpServer;
+  path?: string;
+  // Shares notifications with the other server instances
+  broker?: NotificationBroker;
+}
+
 /**
  * WebSocket Notification Server
  * Sends real-time notifications to trigger HTTP REST sync between devices
  * Does NOT handle data sync directly - only notifies clients to pull via HTTP
  */
 export class WebSocketSyncServer {
-  private wss: WebSocketServer;
+  private servers: WebSocketServer[] = [];
+  private httpServer?: HttpServer;
+  private upgradeListener?: (req: IncomingMessage, socket: Duplex, head: Buffer) => void;
+  private broker?: NotificationBroker;
+  private instanceId = randomUUID();
+  private remotePresence = new RemotePresence(REMOTE_PRESENCE_TTL_MS);
   private clients: Map<string, Set<AuthenticatedWebSocket>> = new Map(); // userId -> Set<WebSocket>
+  private history = new NotificationHistory<SyncNotifyData>(REPLAY_MAX_NOTIFICATIONS, REPLAY_MAX_AGE_MS);
   private heartbeatInterval?: NodeJS.Timeout;
 
-  constructor(port: number) {
-    this.wss = new WebSocketServer({ 
-      port,
-      verifyClient: this.verifyClient.bind(this),
-    });
+  constructor(options: WebSocketSyncServerOptions) {
+    if (options.port) {
+      const standalone = new WebSocketServer({ 
+        port: options.port,
+        verifyClient: this.verifyClient.bind(this),
+      });
+      standalone.on('connection', this.handleConnection.bind(this));
+      this.servers.push(standalone);
+      console.log(`🔌 WebSocket Server listening on port ${options.port}`);
+    }
+
+    if (options.server && options.path) {
+      this.attach(options.server, options.path);
+    }
+
+    if (options.broker) {
+      this.broker = options.broker;
+      this.broker.subscribe(this.handleBrokerMessage.bind(this)).catch((error) => {
+        console.error('❌ Error subscribing to notification broker:', error);
+      });
+    }
 
-    console.log(`🔌 WebSocket Server listening on port ${port}`);
-    
-    this.wss.on('connection', this.handleConnection.bind(this));
     this.startHeartbeat();
   }
 
+  /**
+   * Serve WebSockets on an HTTP server's upgrade requests for one path
+   * Upgrades for other paths are refused. Browser origins are checked against
+   * CORS_ORIGIN, as for the REST API.
+   */
+  private attach(server: HttpServer, path: string): void {
+    const attached = new WebSocketServer({
+      noServer: true,
+      verifyClient: (info, callback) => {
+        if (!this.originAllowed(info.origin)) {
+          console.warn(`⛔ WS upgrade from origin ${info.origin} rejected`);
+          callback(false, 403, 'Origin not allowed');
+          return;
+        }
+        this.verifyClient(info, callback);
+      },
+    });
+    attached.on('connection', this.handleConnection.bind(this));
+
+    this.upgradeListener = (req, socket, head) => {
+      const pathname = new URL(req.url || '', `http://${req.headers.host}`).pathname;
+      if (pathname !== path) {
+        socket.destroy();
+        return;
+      }
+      attached.handleUpgrade(req, socket, head, (ws) => attached.emit('connection', ws, req));
+    };
+    server.on('upgrade', this.upgradeListener);
+
+    this.httpServer = server;
+    this.servers.push(attached);
+    console.log(`🔌 WebSocket Server accepting upgrades at ${path}`);
+  }
+
+  private originAllowed(origin: string | undefined): boolean {
+    // Native clients send no Origin header
+    return !origin || ALLOWED_ORIGIN === '*' || origin === ALLOWED_ORIGIN;
+  }
+
   /**
    * Verify client authentication during handshake
    */
@@ -44,6 +200,8 @@ export class WebSocketSyncServer {
     const url = new URL(info.req.url || '', `ws://${info.req.headers.host}`);
     const token = url.searchParams.get('token');
     const deviceId = url.searchParams.get('deviceId');
+    // Optional: the device's last pull cursor, to replay what it missed
+    const cursor = url.searchParams.get('cursor');
 
     if (!token || !deviceId) {
       callback(false, 401, 'Missing authentication credentials');
@@ -56,6 +214,7 @@ export class WebSocketSyncServer {
       // Attach userId and deviceId to the request for use in handleConnection
       (info.req as any).userId = decoded.userId;
       (info.req as any).deviceId = deviceId;
+      (info.req as any).cursor = cursor;
       
       callback(true);
     } catch (error) {
@@ -70,10 +229,15 @@ export class WebSocketSyncServer {
   private handleConnection(ws: AuthenticatedWebSocket, req: IncomingMessage): void {
     const userId = (req as any).userId;
     const deviceId = (req as any).deviceId;
+    const cursor: string | null = (req as any).cursor;
 
     ws.userId = userId;
     ws.deviceId = deviceId;
     ws.isAlive = true;
+    ws.connectedAt = Date.now();
+    ws.noteUuid = null;
+    ws.presenceState = null;
+    ws.presenceUpdatedAt = ws.connectedAt;
 
     console.log(`✅ WS Client connected - User: ${userId}, Device: ${deviceId}`);
 
@@ -94,6 +258,60 @@ export class WebSocketSyncServer {
       type: 'heartbeat',
       data: { message: 'Connected to sync server', timestamp: Date.now() },
     });
+
+    // Tell the device who else is online, and the others that it is
+    this.sendToClient(ws, {
+      type: 'presence:snapshot',
+      data: { devices: this.presenceOf(userId).filter(presence => presence.deviceId !== deviceId) },
+    });
+    this.publishPresence(userId, this.socketPresence(ws));
+
+    if (cursor !== null) {
+      this.replayMissed(ws, userId, cursor).catch((error) => {
+        console.error('❌ Error replaying notifications:', error);
+        this.sendToClient(ws, { type: 'sync:replay', data: { notifications: [], pullRequired: true, reason: 'replay_failed' } });
+      });
+    }
+  }
+
+  /**
+   * Send the notifications a reconnecting device missed since its cursor
+   * pullRequired is false only when they cover every change up to the current
+   * head; otherwise (cursor unknown, history lost or trimmed, truncated
+   * notifications) the device must pull. Notifications sent live meanwhile may
+   * arrive before the replay or repeat in it; devices order them by seq.
+   */
+  private async replayMissed(ws: AuthenticatedWebSocket, userId: string, cursor: string): Promise<void> {
+    const headSeq = await currentChangeSeq(pool, userId);
+    const head = { seq: headSeq, cursor: encodeCursor({ seq: headSeq }) };
+
+    let cursorSeq: number;
+    try {
+      cursorSeq = decodeCursor(cursor).seq;
+    } catch (error) {
+      if (!(error instanceof InvalidCursorError)) {
+        throw error;
+      }
+      this.sendToClient(ws, { type: 'sync:replay', data: { notifications: [], pullRequired: true, reason: 'invalid_cursor', ...head } });
+      return;
+    }
+
+    if (cursorSeq > headSeq) {
+      this.sendToClient(ws, { type: 'sync:replay', data: { notifications: [], pullRequired: true, reason: 'invalid_cursor', ...head } });
+      return;
+    }
+
+    const replay = this.history.since(userId, cursorSeq, headSeq);
+    console.log(`🔁 Replaying ${replay.notifications.length} notification(s) to device ${ws.deviceId} (${replay.complete ? 'complete' : 'pull required'})`);
+    this.sendToClient(ws, {
+      type: 'sync:replay',
+      data: {
+        notifications: replay.notifications,
+        pullRequired: !replay.complete,
+        ...(replay.complete ? {} : { reason: 'history_incomplete' }),
+        ...head,
+      },
+    });
   }
 
   /**
@@ -130,6 +348,19 @@ export class WebSocketSyncServer {
           this.sendToClient(ws, { type: 'pong', data: { timestamp: Date.now() } });
           break;
 
+        case 'presence:update': {
+          const update = parsePresenceUpdate(message.data);
+          if (!update) {
+            console.warn('⚠️ Invalid presence update:', message.data);
+            break;
+          }
+          ws.noteUuid = update.noteUuid;
+          ws.presenceState = update.state;
+          ws.presenceUpdatedAt = Date.now();
+          this.publishPresence(ws.userId!, this.socketPresence(ws));
+          break;
+        }
+
         default:
           console.warn('⚠️ Unknown message type:', message.type);
       }
@@ -140,26 +371,119 @@ export class WebSocketSyncServer {
 
   /**
    * Notify all devices of a user (except sender) that new sync data is available
-   * This triggers clients to make an HTTP pull request
+   * This triggers clients to make an HTTP pull request, or lets them apply the
+   * listed changes directly
    */
-  notifySyncAvailable(userId: string, excludeDeviceId: string, data?: any): void {
+  notifySyncAvailable(userId: string, excludeDeviceId: string, data: SyncNotification = {}): void {
+    const { changes = [], seq, baseSeq, ...extra } = data;
+    const truncated = changes.length > MAX_NOTIFY_CHANGES;
+    const notification: SyncNotifyData = {
+      timestamp: Date.now(),
+      sourceDeviceId: excludeDeviceId,
+      ...extra,
+      entityTypes: [...new Set(changes.map(change => change.type))],
+      changes: truncated ? [] : changes,
+      truncated,
+      ...(seq !== undefined ? { seq, cursor: encodeCursor({ seq }) } : {}),
+      // Without the full list the device cannot catch up from the base alone
+      ...(baseSeq !== undefined && !truncated ? { baseSeq, baseCursor: encodeCursor({ seq: baseSeq }) } : {}),
+    };
+    this.deliver(userId, notification);
+
+    if (this.broker) {
+      this.broker.publish({ instanceId: this.instanceId, userId, notification }).catch((error) => {
+        console.error('❌ Error publishing sync notification:', error);
+      });
+    }
+  }
+
+  /**
+   * A notification published by another server instance
+   */
+  private handleBrokerMessage(message: BrokerMessage): void {
+    if (message.instanceId === this.instanceId) {
+      return;
+    }
+    if (message.kind === 'presence') {
+      // A device that moved to this instance is reported by its socket here
+      if (this.remotePresence.apply(message.userId, message.presence) && !this.hasLocalDevice(message.userId, message.presence.deviceId)) {
+        this.broadcastPresence(message.userId, message.presence);
+      }
+      return;
+    }
+    this.deliver(message.userId, message.notification as SyncNotifyData);
+  }
+
+  private socketPresence(ws: AuthenticatedWebSocket, online = true): DevicePresence {
+    return {
+      deviceId: ws.deviceId!,
+      online,
+      noteUuid: online ? ws.noteUuid ?? null : null,
+      state: online ? ws.presenceState ?? null : null,
+      updatedAt: online ? ws.presenceUpdatedAt ?? Date.now() : Date.now(),
+    };
+  }
+
+  private hasLocalDevice(userId: string, deviceId: string, except?: AuthenticatedWebSocket): boolean {
+    return [...(this.clients.get(userId) ?? [])]
+      .some(client => client !== except && client.deviceId === deviceId && client.readyState === WebSocket.OPEN);
+  }
+
+  /**
+   * Online devices of a user on every instance; the latest presence wins for a device with several connections
+   */
+  presenceOf(userId: string): DevicePresence[] {
+    const devices = new Map<string, DevicePresence>();
+    const local = [...(this.clients.get(userId) ?? [])]
+      .filter(client => client.readyState === WebSocket.OPEN)
+      .map(client => this.socketPresence(client));
+    for (const presence of [...this.remotePresence.list(userId), ...local]) {
+      const known = devices.get(presence.deviceId);
+      if (!known || presence.updatedAt >= known.updatedAt) {
+        devices.set(presence.deviceId, presence);
+      }
+    }
+    return [...devices.values()];
+  }
+
+  /**
+   * Send a device's presence to the user's other devices here and on other instances
+   */
+  private publishPresence(userId: string, presence: DevicePresence): void {
+    this.broadcastPresence(userId, presence);
+
+    if (this.broker) {
+      this.broker.publish({ kind: 'presence', instanceId: this.instanceId, userId, presence }).catch((error) => {
+        console.error('❌ Error publishing presence:', error);
+      });
+    }
+  }
+
+  private broadcastPresence(userId: string, presence: DevicePresence): void {
+    this.clients.get(userId)?.forEach((client) => {
+      if (client.deviceId !== presence.deviceId) {
+        this.sendToClient(client, { type: 'presence:changed', data: presence });
+      }
+    });
+  }
+
+  /**
+   * Keep a notification for replay and send it to this instance's devices of the user
+   */
+  private deliver(userId: string, notification: SyncNotifyData): void {
+    const excludeDeviceId = notification.sourceDeviceId;
+    this.history.record(userId, notification);
+
     const userClients = this.clients.get(userId);
     
     if (!userClients || userClients.size === 0) {
-      console.log(`📢 No connected clients for user ${userId} - will sync on next connection`);
+      console.log(`📢 No connected clients for user ${userId} - will replay on next connection`);
       return;
     }
 
     console.log(`📢 Notifying user ${userId} devices (excluding ${excludeDeviceId}) - ${userClients.size} total clients`);
-    
-    const message: WSMessage = {
-      type: 'sync:notify',
-      data: {
-        timestamp: Date.now(),
-        sourceDeviceId: excludeDeviceId,
-        ...data,
-      },
-    };
+
+    const message: WSMessage = { type: 'sync:notify', data: notification };
 
     let notifiedCount = 0;
     userClients.forEach((client) => {
@@ -178,6 +502,21 @@ export class WebSocketSyncServer {
     console.log(`✅ Notified ${notifiedCount} device(s)`);
   }
 
+  /**
+   * Open connections of a user's devices
+   * Devices connected to other instances are known from their presence, one
+   * entry per device, and count as alive while their presence is refreshed.
+   */
+  getConnections(userId: string): DeviceConnection[] {
+    const local: DeviceConnection[] = [...(this.clients.get(userId) ?? [])]
+      .filter(client => client.readyState === WebSocket.OPEN)
+      .map(client => ({ deviceId: client.deviceId!, connectedAt: client.connectedAt!, alive: client.isAlive !== false, remote: false }));
+    const remote: DeviceConnection[] = this.remotePresence.list(userId)
+      .filter(presence => !local.some(connection => connection.deviceId === presence.deviceId))
+      .map(presence => ({ deviceId: presence.deviceId, connectedAt: null, alive: true, remote: true }));
+    return [...local, ...remote];
+  }
+
   /**
    * Handle client disconnect
    */
@@ -195,6 +534,11 @@ export class WebSocketSyncServer {
           this.clients.delete(userId);
         }
       }
+
+      // Still online while another connection of the device is open
+      if (deviceId && !this.hasLocalDevice(userId, deviceId, ws)) {
+        this.publishPresence(userId, this.socketPresence(ws, false));
+      }
     }
   }
 
@@ -226,7 +570,7 @@ export class WebSocketSyncServer {
    */
   private startHeartbeat(): void {
     this.heartbeatInterval = setInterval(() => {
-      this.wss.clients.forEach((ws: WebSocket) => {
+      this.servers.forEach((wss) => wss.clients.forEach((ws: WebSocket) => {
         const client = ws as AuthenticatedWebSocket;
         
         if (client.isAlive === false) {
@@ -236,31 +580,67 @@ export class WebSocketSyncServer {
 
         client.isAlive = false;
         client.ping();
-      });
+      }));
+
+      this.history.pruneAll();
+      this.refreshPresence();
     }, 30000); // 30 seconds
   }
 
+  /**
+   * Re-announce this instance's devices to the other instances and drop the
+   * ones other instances stopped announcing
+   */
+  private refreshPresence(): void {
+    if (!this.broker) {
+      return;
+    }
+
+    for (const [userId, userClients] of this.clients) {
+      for (const client of userClients) {
+        if (client.readyState === WebSocket.OPEN) {
+          this.broker.publish({ kind: 'presence', instanceId: this.instanceId, userId, presence: this.socketPresence(client) }).catch((error) => {
+            console.error('❌ Error publishing presence:', error);
+          });
+        }
+      }
+    }
+
+    for (const [userId, expired] of this.remotePresence.expire()) {
+      expired
+        .filter(presence => !this.hasLocalDevice(userId, presence.deviceId))
+        .forEach(presence => this.broadcastPresence(userId, presence));
+    }
+  }
+
   /**
    * Gracefully shutdown the server
    */
   async shutdown(): Promise<void> {
     console.log('🛑 Shutting down WebSocket server...');
 
+    if (this.broker) {
+      await this.broker.close();
+    }
+
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval);
     }
 
+    // Stop taking upgrades on the HTTP server; closing it is up to its owner
+    if (this.httpServer && this.upgradeListener) {
+      this.httpServer.off('upgrade', this.upgradeListener);
+    }
+
     // Close all connections
-    this.wss.clients.forEach((ws) => {
+    this.servers.forEach((wss) => wss.clients.forEach((ws) => {
       ws.close(1000, 'Server shutting down');
-    });
+    }));
 
-    // Close server
-    await new Promise<void>((resolve) => {
-      this.wss.close(() => {
-        console.log('✅ WebSocket server closed');
-        resolve();
-      });
-    });
+    // Close servers
+    await Promise.all(this.servers.map((wss) => new Promise<void>((resolve) => {
+      wss.close(() => resolve());
+    })));
+    console.log('✅ WebSocket server closed');
   }
 }